@@ -0,0 +1,264 @@
+import { readdir, readFile, writeFile } from "node:fs/promises";
+import { basename, extname, join } from "node:path";
+import { parseArgs } from "node:util";
+import {
+  AnnotateCore,
+  type SaveObject,
+  type SaveWithMetadata,
+} from "../src/lib/annotate";
+import {
+  exportAnnotations,
+  exportFormats,
+  regionBpm,
+  regionBeats,
+  type ExportFormat,
+} from "../src/lib/export";
+import { importAnnotations } from "../src/lib/import";
+import { readSave } from "../src/lib/save";
+
+const usage = `usage: tempo-annotation <command> [options]
+
+commands:
+  validate <save.json>...
+      check saves against the current schema, exits with 1 if any is invalid
+  infer <save.json> [-o <out.json>] [--duration <seconds>]
+      regenerate the inferred beats of a save
+  convert <input> --to <format> [-o <out>] [--duration <seconds>]
+      convert annotations, formats: ${exportFormats.map((f) => f.format).join(", ")}
+  summary <directory>
+      tempo of every region of every save in a directory
+
+--duration is the length of the audio, required unless the input is a save
+that records it. Without -o, results are written to stdout.`;
+
+class UsageError extends Error {}
+
+function fail(message: string): never {
+  throw new UsageError(message);
+}
+
+async function readJson(path: string): Promise<unknown> {
+  try {
+    return JSON.parse(await readFile(path, "utf8"));
+  } catch (err) {
+    throw new UsageError(
+      `${path}: ${err instanceof Error ? err.message : String(err)}`,
+    );
+  }
+}
+
+/** Audio duration stored in our saves or in JAMS file metadata. */
+function recordedDuration(json: unknown): number | null {
+  if (typeof json !== "object" || json === null) {
+    return null;
+  }
+  if ("duration" in json && typeof json.duration === "number") {
+    return json.duration;
+  }
+  if (
+    "file_metadata" in json &&
+    typeof json.file_metadata === "object" &&
+    json.file_metadata !== null &&
+    "duration" in json.file_metadata &&
+    typeof json.file_metadata.duration === "number"
+  ) {
+    return json.file_metadata.duration;
+  }
+  return null;
+}
+
+function parseDuration(value: string | undefined): number | null {
+  if (value === undefined) {
+    return null;
+  }
+  const duration = Number(value);
+  if (!(duration > 0)) {
+    fail(`--duration must be a positive number of seconds, got ${value}`);
+  }
+  return duration;
+}
+
+/** Loads a save into the annotation model and saves it again. */
+function regenerate(save: SaveObject, duration: number): SaveObject {
+  return AnnotateCore({
+    duration,
+    save: () => {},
+    loadSaved: save,
+  }).save();
+}
+
+async function output(data: string | Uint8Array, path: string | undefined) {
+  if (path === undefined) {
+    process.stdout.write(data);
+  } else {
+    await writeFile(path, data);
+  }
+}
+
+async function validate(paths: string[]): Promise<number> {
+  if (paths.length === 0) {
+    fail("validate needs at least one file");
+  }
+  let invalid = 0;
+  for (const path of paths) {
+    const result = readSave(await readJson(path));
+    if (result.success) {
+      console.log(`${path}: ok`);
+      for (const warning of result.warnings) {
+        console.log(`  warning: ${warning}`);
+      }
+    } else {
+      invalid += 1;
+      console.log(`${path}: invalid`);
+      for (const error of result.errors) {
+        console.log(`  ${error}`);
+      }
+    }
+  }
+  return invalid > 0 ? 1 : 0;
+}
+
+async function infer(
+  path: string | undefined,
+  opts: { out?: string; duration?: string },
+): Promise<number> {
+  if (path === undefined) {
+    fail("infer needs a save file");
+  }
+  const json = await readJson(path);
+  const result = readSave(json);
+  if (!result.success) {
+    console.error(`${path}: invalid\n  ${result.errors.join("\n  ")}`);
+    return 1;
+  }
+  const duration =
+    parseDuration(opts.duration) ??
+    recordedDuration(json) ??
+    fail(`${path} does not record the audio duration, pass --duration`);
+  const regenerated = { ...result.save, ...regenerate(result.save, duration) };
+  await output(JSON.stringify(regenerated), opts.out);
+  return 0;
+}
+
+async function convert(
+  path: string | undefined,
+  opts: { to?: string; out?: string; duration?: string },
+): Promise<number> {
+  if (path === undefined) {
+    fail("convert needs an input file");
+  }
+  const format =
+    exportFormats.find((f) => f.format === opts.to)?.format ??
+    fail(`unknown or missing --to format: ${opts.to ?? "(none)"}`);
+  const data = await readFile(path);
+  const bytes = data.buffer.slice(
+    data.byteOffset,
+    data.byteOffset + data.byteLength,
+  ) as ArrayBuffer;
+  const json = [".json", ".jams"].includes(extname(path).toLowerCase())
+    ? await readJson(path)
+    : null;
+  const duration =
+    parseDuration(opts.duration) ??
+    recordedDuration(json) ??
+    fail(`${path} does not record the audio duration, pass --duration`);
+  const imported = importAnnotations(basename(path), bytes, duration);
+  if (!imported.success) {
+    console.error(
+      `${path}: can not be imported\n  ${imported.errors.join("\n  ")}`,
+    );
+    return 1;
+  }
+  for (const warning of imported.warnings) {
+    console.error(`warning: ${warning}`);
+  }
+  const save: SaveWithMetadata = {
+    ...regenerate(imported.data, duration),
+    fileName: basename(path, extname(path)),
+    fileSize: 0,
+    duration,
+  };
+  await output(exportAnnotations(save, format as ExportFormat), opts.out);
+  return 0;
+}
+
+async function summary(dir: string | undefined): Promise<number> {
+  if (dir === undefined) {
+    fail("summary needs a directory");
+  }
+  const files = (await readdir(dir, { recursive: true }))
+    .filter((f) => extname(f).toLowerCase() === ".json")
+    .sort();
+  for (const file of files) {
+    const path = join(dir, file);
+    const result = readSave(await readJson(path));
+    if (!result.success) {
+      console.log(`${file}: invalid save, see validate`);
+      continue;
+    }
+    const regions = result.save.tempoRegions;
+    const beats = regions.reduce((n, r, i) => n + regionBeats(r, i).length, 0);
+    console.log(`${file}: ${regions.length} regions, ${beats} beats`);
+    for (const [i, r] of regions.entries()) {
+      const bpm = regionBpm(r, i);
+      const tempo =
+        r.tempo.type === "ramp"
+          ? `${r.tempo.startBpm.toFixed(2)} -> ${r.tempo.endBpm.toFixed(2)} bpm`
+          : bpm !== null
+            ? `${bpm.toFixed(2)} bpm`
+            : "- bpm";
+      console.log(
+        `  ${i + 1}\t${r.markedBeats[0].toFixed(3)} s\t${r.tempo.type}\t${tempo}`,
+      );
+    }
+  }
+  return 0;
+}
+
+async function main(argv: string[]): Promise<number> {
+  const { positionals, values } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      out: { type: "string", short: "o" },
+      to: { type: "string" },
+      duration: { type: "string" },
+      help: { type: "boolean", short: "h" },
+    },
+  });
+  const [command, ...args] = positionals;
+  if (values.help || command === undefined) {
+    console.log(usage);
+    return 0;
+  }
+  switch (command) {
+    case "validate":
+      return validate(args);
+    case "infer":
+      return infer(args[0], values);
+    case "convert":
+      return convert(args[0], values);
+    case "summary":
+      return summary(args[0]);
+    default:
+      fail(`unknown command: ${command}`);
+  }
+}
+
+main(process.argv.slice(2)).then(
+  (code) => {
+    process.exitCode = code;
+  },
+  (err) => {
+    if (
+      err instanceof UsageError ||
+      (err instanceof TypeError && "code" in err)
+    ) {
+      console.error(`${err.message}\n\n${usage}`);
+      process.exitCode = 2;
+    } else {
+      console.error(err);
+      process.exitCode = 1;
+    }
+  },
+);
@@ -0,0 +1,125 @@
+import type { BeatTrackingResult } from "./beattrack";
+import type { OnsetEnvelope, Spectrogram } from "./onsets";
+
+export type AnalysisRequest = { id: number } & (
+  | { type: "loadAudio"; samples: Float32Array; sampleRate: number }
+  | { type: "trackBeats" }
+  | { type: "onsets" }
+  | { type: "lanes" }
+);
+
+/** Time-aligned views of the audio drawn under the waveform. */
+export type AnalysisLanes = {
+  spectrogram: Spectrogram;
+  onsetStrength: OnsetEnvelope;
+};
+
+export type AnalysisResults = {
+  loadAudio: null;
+  trackBeats: BeatTrackingResult;
+  onsets: number[];
+  lanes: AnalysisLanes;
+};
+
+export type AnalysisResponse =
+  | { id: number; result: AnalysisResults[keyof AnalysisResults] }
+  | { id: number; error: string };
+
+type RequestBody<K extends AnalysisRequest["type"]> = Omit<
+  AnalysisRequest & { type: K },
+  "id"
+>;
+
+export type IAnalysis = {
+  /** Sends the audio to the worker, all further analyses run on it. */
+  loadAudio: (audio: AudioBuffer) => Promise<void>;
+  trackBeats: () => Promise<BeatTrackingResult>;
+  /** Times of detected transients in seconds, ascending. */
+  onsets: () => Promise<number[]>;
+  lanes: () => Promise<AnalysisLanes>;
+  destroy: () => void;
+};
+
+export function mixToMono(audio: AudioBuffer): Float32Array {
+  const mono = new Float32Array(audio.length);
+  for (let c = 0; c < audio.numberOfChannels; c++) {
+    const data = audio.getChannelData(c);
+    for (let i = 0; i < data.length; i++) {
+      mono[i] += data[i] / audio.numberOfChannels;
+    }
+  }
+  return mono;
+}
+
+export async function decodeAudio(data: ArrayBuffer): Promise<AudioBuffer> {
+  const ctx = new AudioContext();
+  try {
+    return await ctx.decodeAudioData(data);
+  } finally {
+    ctx.close();
+  }
+}
+
+/**
+ * Runs audio analyses in a web worker so decoding-sized loops do not block
+ * the UI. Requests are answered in order, each call resolves with the result
+ * of its own request.
+ */
+export const Analysis = (): IAnalysis => {
+  const worker = new Worker(new URL("./analysis.worker.ts", import.meta.url), {
+    type: "module",
+  });
+  let nextId = 0;
+  const pending = new Map<
+    number,
+    { resolve: (v: unknown) => void; reject: (e: Error) => void }
+  >();
+
+  worker.onmessage = (e: MessageEvent<AnalysisResponse>) => {
+    const p = pending.get(e.data.id);
+    if (p === undefined) {
+      return;
+    }
+    pending.delete(e.data.id);
+    if ("error" in e.data) {
+      p.reject(new Error(e.data.error));
+    } else {
+      p.resolve(e.data.result);
+    }
+  };
+
+  const request = <K extends AnalysisRequest["type"]>(
+    body: RequestBody<K>,
+    transfer: Transferable[] = [],
+  ): Promise<AnalysisResults[K]> => {
+    nextId += 1;
+    const id = nextId;
+    return new Promise((resolve, reject) => {
+      pending.set(id, {
+        resolve: resolve as (v: unknown) => void,
+        reject,
+      });
+      worker.postMessage({ id, ...body }, transfer);
+    });
+  };
+
+  return {
+    loadAudio: async (audio: AudioBuffer) => {
+      const samples = mixToMono(audio);
+      await request<"loadAudio">(
+        { type: "loadAudio", samples, sampleRate: audio.sampleRate },
+        [samples.buffer],
+      );
+    },
+    trackBeats: () => request<"trackBeats">({ type: "trackBeats" }),
+    onsets: () => request<"onsets">({ type: "onsets" }),
+    lanes: () => request<"lanes">({ type: "lanes" }),
+    destroy: () => {
+      worker.terminate();
+      for (const p of pending.values()) {
+        p.reject(new Error("analysis worker terminated"));
+      }
+      pending.clear();
+    },
+  };
+};
@@ -0,0 +1,63 @@
+import { trackBeatsWithTempoChanges } from "./beattrack";
+import {
+  logSpectrogram,
+  onsetStrength,
+  pickOnsets,
+  type OnsetEnvelope,
+} from "./onsets";
+import type {
+  AnalysisRequest,
+  AnalysisResponse,
+  AnalysisResults,
+} from "./analysis";
+
+let audio: { samples: Float32Array; sampleRate: number } | null = null;
+let envelope: OnsetEnvelope | null = null;
+
+function getEnvelope(): OnsetEnvelope {
+  if (audio === null) {
+    throw new Error("no audio loaded");
+  }
+  if (envelope === null) {
+    envelope = onsetStrength(audio.samples, audio.sampleRate);
+  }
+  return envelope;
+}
+
+function handle<K extends AnalysisRequest["type"]>(
+  req: AnalysisRequest & { type: K },
+): AnalysisResults[K];
+function handle(req: AnalysisRequest): AnalysisResults[keyof AnalysisResults] {
+  switch (req.type) {
+    case "loadAudio":
+      audio = { samples: req.samples, sampleRate: req.sampleRate };
+      envelope = null;
+      return null;
+    case "trackBeats":
+      return trackBeatsWithTempoChanges(getEnvelope());
+    case "onsets":
+      return pickOnsets(getEnvelope());
+    case "lanes":
+      if (audio === null) {
+        throw new Error("no audio loaded");
+      }
+      return {
+        spectrogram: logSpectrogram(audio.samples, audio.sampleRate),
+        onsetStrength: getEnvelope(),
+      };
+  }
+}
+
+self.onmessage = (e: MessageEvent<AnalysisRequest>) => {
+  const req = e.data;
+  let response: AnalysisResponse;
+  try {
+    response = { id: req.id, result: handle(req) };
+  } catch (err) {
+    response = {
+      id: req.id,
+      error: err instanceof Error ? err.message : String(err),
+    };
+  }
+  self.postMessage(response);
+};
@@ -0,0 +1,2132 @@
+import {
+  assertNotNull,
+  isNotNullish,
+  isNullish,
+  isSortedAscending,
+  nearest,
+} from "./util";
+import { UndoHistory } from "./history";
+import {
+  barPositions,
+  DEFAULT_BEATS_PER_BAR,
+  MARKED_LEVEL,
+  metricalLevelChanges,
+  nearestIndex,
+  rescaleBeats,
+  scaleMetricalLevel,
+  type BeatPosition,
+  type Meter,
+  type MetricalLevel,
+  type MetricalLevelChange,
+} from "./meter";
+import {
+  fitRamp,
+  rampBeats,
+  rampBpmAt,
+  rampPhaseAt,
+  type Ramp,
+  type RampCurve,
+  type RampSpan,
+} from "./ramp";
+import { fitBeatGrid, fitPhase } from "./fit";
+import {
+  estimateSwingRatio,
+  subdivisionTimes,
+  type SubdivisionType,
+} from "./subdivision";
+import { SAVE_VERSION } from "./save";
+
+export type AutoBeat = {
+  id: number;
+  markerType: "auto";
+  regionIndex: number;
+  time: number;
+  position: BeatPosition | null;
+};
+
+export type UserBeat = {
+  id: number;
+  regionIndex: number;
+  markerType: "user";
+  isTempoChange: boolean;
+  time: number;
+  localBeatPeriod: number | null;
+  /** Deviation in seconds from the region's fitted beat grid. */
+  residual: number | null;
+  /** The residual exceeds `OFF_GRID_FRACTION` of a beat period. */
+  offGrid: boolean;
+  position: BeatPosition | null;
+};
+
+export type Beat = AutoBeat | UserBeat;
+
+/** A marked onset between beats. */
+export type SubdivisionMark = {
+  id: number;
+  time: number;
+};
+
+type Tempo =
+  | {
+      type: "tapped";
+      value: {
+        /** Least squares period of the marked beats. */
+        meanPeriod: number;
+        stddev: number;
+        /** Fitted time of the first marked beat. */
+        phase: number;
+        /** Grid index of each marked beat. */
+        indices: number[];
+        bpmInterval: [number, number] | null;
+      } | null;
+    }
+  | { type: "fixed"; bpm: number; phaseOffset: number }
+  | ({
+      type: "ramp";
+      /** In beats, the inferred beats fall on this phase plus an integer. */
+      phaseOffset: number;
+      /** Start or end tempo set by hand, not fitted again on beat changes. */
+      manual: boolean;
+    } & Ramp);
+
+export type TempoType = Tempo["type"];
+
+export type TempoRegion = {
+  id: number;
+  index: number;
+  userBeats: UserBeat[];
+  autoBeats: AutoBeat[];
+  startTime: number;
+  endTime: number;
+  /**
+   * The user beats are offbeats, the inferred beats lie half a period after
+   * them.
+   */
+  offbeatsMarked: boolean;
+  /** Proposed by the beat tracker and not yet accepted by the user. */
+  suggested: boolean;
+  tempo: Tempo;
+  meter: Meter;
+  metricalLevel: MetricalLevel;
+  /** Marks are in ascending order. */
+  subdivision: { type: SubdivisionType; marks: SubdivisionMark[] };
+  /** Estimated from the marks, see `estimateSwingRatio`. */
+  swingRatio: number | null;
+  /** Fields of the loaded save unknown to this version, written back as is. */
+  extraFields: Record<string, unknown>;
+};
+
+export type SnapSettings = {
+  enabled: boolean;
+  /** Maximum distance in seconds a beat is moved to reach an onset. */
+  window: number;
+};
+
+export const MAX_TEMPO = 300;
+/** Closest two marked beats may be, in seconds. */
+export const MIN_BEAT_SPACING = 60 / MAX_TEMPO;
+/** Fraction of a beat period a marked beat may deviate from the fit. */
+export const OFF_GRID_FRACTION = 0.1;
+
+export type IAnnotate = {
+  readonly regions: TempoRegion[];
+  regionById: (id: number) => TempoRegion;
+  /** With `snap`, the time is moved to a nearby onset if snapping is enabled. */
+  addPoint: (opts: {
+    time: number;
+    isTempoChange: boolean;
+    snap?: boolean;
+  }) => void;
+  /**
+   * Adds marked beats to a region as one undoable edit, times outside the
+   * region are left out. Returns how many beats were added.
+   */
+  addBeats: (regionId: number | null, times: number[]) => number;
+  deletePoint: (id: number) => void;
+  /** Deletes several marked beats as one undoable edit. */
+  deleteBeats: (ids: number[]) => void;
+  /** Moves marked beats by `offset` seconds, as far as their neighbours allow. */
+  nudgeBeats: (ids: number[], offset: number) => void;
+  /** Moves marked beats onto their region's fitted beat grid. */
+  quantizeBeats: (ids: number[]) => void;
+  deleteAll: () => void;
+  tryMovePoint: (
+    id: number,
+    toTime: number,
+    what: "start" | "move" | "end",
+    snap?: boolean,
+  ) => number;
+  /**
+   * Starts a new region at `time` with a tempo change there, the marked beat
+   * at `time` if there is one and otherwise a new one. Returns false if
+   * `time` is not after the region's first marked beat or past its end.
+   */
+  splitRegion: (regionId: number, time: number) => boolean;
+  /** Joins the region with a neighbour, keeping the earlier one's settings. */
+  mergeRegions: (regionId: number, direction: "previous" | "next") => boolean;
+  /**
+   * Moves all marked beats of a region by `offset` seconds, limited so they
+   * stay clear of the neighbouring regions. Returns the offset applied.
+   */
+  shiftRegion: (regionId: number, offset: number) => number;
+  /**
+   * Moves the start of a region to the marked beat nearest to `time`, beats
+   * in between change region. Returns the new start.
+   */
+  moveRegionBoundary: (regionId: number, time: number) => number;
+  /** Onset times in ascending order that beats can snap to. */
+  setSnapTargets: (times: number[] | null) => void;
+  snapSettings: SnapSettings;
+  setRegionFixedTempo: (regionId: number, bpm: number) => void;
+  /**
+   * Makes the region fixed tempo with the least squares tempo and phase of
+   * its marked beats. Needs at least two marked beats.
+   */
+  fitFixedTempo: (regionId: number) => void;
+  setRegionType: (regionId: number, type: TempoType) => void;
+  /** A start or end tempo set here is kept when beats change. */
+  setRegionRamp: (regionId: number, ramp: Partial<Ramp>) => void;
+  /**
+   * Fits the ramp's start and end tempo to the marked beats, and again
+   * whenever they change.
+   */
+  fitRegionRamp: (regionId: number) => void;
+  setRegionMeter: (regionId: number, meter: Partial<Meter>) => void;
+  setRegionOffbeatsMarked: (regionId: number, offbeatsMarked: boolean) => void;
+  setRegionSubdivision: (regionId: number, type: SubdivisionType) => void;
+  /**
+   * Rewrites the marked beats of a region at another metrical level, keeping
+   * their phase, and scales its tempo and beats per bar along. Returns false
+   * if the region has too few beats or the new beats would be too close.
+   */
+  changeMetricalLevel: (
+    regionId: number,
+    change: MetricalLevelChange,
+  ) => boolean;
+  /**
+   * Marks a subdivision onset in the region at `time`. Returns false if no
+   * region contains it.
+   */
+  addSubdivisionMark: (time: number, snap?: boolean) => boolean;
+  deleteSubdivisionMark: (id: number) => void;
+  /** Inferred subdivision onsets of all regions in the range, ascending. */
+  subdivisionsBetween: (startTime: number, endTime: number) => number[];
+  setViewport: (v: { startTime: number; endTime: number }) => void;
+  beatsBetween: (
+    startTime: number,
+    endTime: number,
+  ) => { time: number; markerType: Beat["markerType"] }[];
+  /** Incremented whenever beats or regions change. */
+  readonly revision: number;
+  selectedRegionId: number | null;
+  readonly selectedRegion: TempoRegion | null;
+  readonly canUndo: boolean;
+  readonly canRedo: boolean;
+  undo: () => void;
+  redo: () => void;
+  /**
+   * Replaces the regions with beat tracker proposals, which stay marked as
+   * suggested until accepted. Refused if there are hand annotated regions.
+   */
+  proposeRegions: (proposal: { markedBeats: number[] }[]) => boolean;
+  /** Accepts one suggested region, or all of them if `regionId` is null. */
+  acceptSuggestions: (regionId: number | null) => void;
+  discardSuggestions: () => void;
+  /**
+   * Replaces all regions with those of `save` as one undoable edit. Throws,
+   * leaving the annotations as they are, if its regions do not fit the audio.
+   */
+  loadSave: (save: SaveObject) => void;
+  save: () => SaveObject;
+  /** The same object `save` passes on, without passing it on. */
+  saveObject: () => SaveObject;
+};
+
+function isFixedTempo(
+  region: TempoRegion,
+): region is TempoRegion & { tempo: { type: "fixed" } } {
+  return region.tempo.type === "fixed";
+}
+function isTappedTempo(
+  region: TempoRegion,
+): region is TempoRegion & { tempo: { type: "tapped" } } {
+  return region.tempo.type === "tapped";
+}
+function isRampTempo(
+  region: TempoRegion,
+): region is TempoRegion & { tempo: { type: "ramp" } } {
+  return region.tempo.type === "ramp";
+}
+
+const HISTORY_LIMIT = 500;
+
+type HistoryEntry = {
+  regions: TempoRegion[];
+  selectedRegionId: number | null;
+};
+
+const incrementingId = () => {
+  let id = 0;
+  return () => {
+    id += 1;
+    return id;
+  };
+};
+
+function setTimesBetweenBeats(
+  region: TempoRegion & { tempo: { type: "tapped" } },
+) {
+  if (region.tempo.value === null) {
+    for (const p of region.userBeats) {
+      p.localBeatPeriod = null;
+    }
+  } else {
+    const { meanPeriod: onePeriod, stddev } = region.tempo.value;
+    for (let i = 0; i < region.userBeats.length; i++) {
+      const beat = region.userBeats[i];
+      if (i === 0) {
+        beat.localBeatPeriod = null;
+      } else {
+        const between = beat.time - region.userBeats[i - 1].time;
+        const nPeriods = Math.round(between / onePeriod);
+        beat.localBeatPeriod = nPeriods > 0 ? between / nPeriods : null;
+      }
+    }
+  }
+}
+
+/** Beat period in seconds of the region's tempo at `time`, if known. */
+export function beatPeriodAt(region: TempoRegion, time: number): number | null {
+  switch (region.tempo.type) {
+    case "fixed":
+      return 60 / region.tempo.bpm;
+    case "tapped":
+      return region.tempo.value?.meanPeriod ?? null;
+    case "ramp":
+      return 60 / rampBpmAt(region.tempo, rampSpan(region), time);
+  }
+}
+
+function setResiduals(region: TempoRegion, residuals: number[] | null) {
+  for (const [i, beat] of region.userBeats.entries()) {
+    beat.residual = residuals !== null ? residuals[i] : null;
+    const period = beatPeriodAt(region, beat.time);
+    beat.offGrid =
+      beat.residual !== null &&
+      period !== null &&
+      region.userBeats.length > 2 &&
+      Math.abs(beat.residual) > OFF_GRID_FRACTION * period;
+  }
+}
+
+function recomputePhaseOffset(
+  region: TempoRegion & { tempo: { type: "fixed" } },
+) {
+  if (region.userBeats.length === 0) {
+    console.error("region can not have 0 beats");
+    return;
+  }
+  const { offset, residuals } = fitPhase(
+    region.userBeats.map((b) => b.time),
+    60 / region.tempo.bpm,
+    region.startTime,
+  );
+  region.tempo.phaseOffset = offset;
+  setResiduals(region, residuals);
+}
+
+/** The ramp runs from the first to the last marked beat. */
+function rampSpan(region: TempoRegion): RampSpan {
+  return {
+    start: region.startTime,
+    end:
+      region.userBeats.length > 0
+        ? region.userBeats[region.userBeats.length - 1].time
+        : region.startTime,
+  };
+}
+
+function recomputeRampPhaseOffset(
+  region: TempoRegion & { tempo: { type: "ramp" } },
+) {
+  if (region.userBeats.length < 2) {
+    region.tempo.phaseOffset = 0;
+    setResiduals(region, null);
+    return;
+  }
+  const span = rampSpan(region);
+  const errors = region.userBeats.map((beat) => {
+    const phase = rampPhaseAt(region.tempo, span, beat.time);
+    return phase - Math.round(phase);
+  });
+  const offset = errors.reduce((a, b) => a + b, 0) / errors.length;
+  region.tempo.phaseOffset = offset;
+  setResiduals(
+    region,
+    region.userBeats.map(
+      (beat, i) =>
+        ((errors[i] - offset) * 60) / rampBpmAt(region.tempo, span, beat.time),
+    ),
+  );
+}
+
+function fitRampTempo(region: TempoRegion & { tempo: { type: "ramp" } }) {
+  const fit = fitRamp(
+    region.userBeats.map((b) => b.time),
+    region.tempo.curve,
+  );
+  if (fit === null) {
+    return;
+  }
+  const clampBpm = (bpm: number) =>
+    Math.round(Math.min(MAX_TEMPO, Math.max(1, bpm)) * 100) / 100;
+  region.tempo.startBpm = clampBpm(fit.startBpm);
+  region.tempo.endBpm = clampBpm(fit.endBpm);
+}
+
+function recomputeTempo(region: TempoRegion & { tempo: { type: "tapped" } }) {
+  if (region.userBeats.length === 0) {
+    console.error("region can not have 0 beats");
+  }
+  const fit = fitBeatGrid(region.userBeats.map((b) => b.time));
+  if (fit === null) {
+    region.tempo.value = null;
+    setResiduals(region, null);
+    return;
+  }
+  const meanBpm = 60 / fit.period;
+  const variance = (() => {
+    let sum = 0;
+    for (let i = 1; i < fit.indices.length; i++) {
+      const periods = fit.indices[i] - fit.indices[i - 1];
+      const dist = region.userBeats[i].time - region.userBeats[i - 1].time;
+      sum += Math.pow(meanBpm - 60 / (dist / periods), 2);
+    }
+    return sum / (fit.indices.length - 1);
+  })();
+  region.tempo.value = {
+    meanPeriod: fit.period,
+    stddev: Math.sqrt(variance),
+    phase: fit.phase,
+    indices: fit.indices,
+    bpmInterval: fit.bpmInterval,
+  };
+  setResiduals(region, fit.residuals);
+}
+
+export type SaveObject = {
+  /** Absent before version 2, see `SAVE_VERSION`. */
+  version: number;
+  tempoRegions: {
+    offbeatsMarked: boolean;
+    suggested?: boolean;
+    tempo:
+      | { type: "fixed"; bpm: number }
+      | { type: "tapped" }
+      | {
+          type: "ramp";
+          startBpm: number;
+          endBpm: number;
+          curve: RampCurve;
+          /** Absent in older saves, whose ramps are fitted again. */
+          manual?: boolean;
+        };
+    meter?: Meter;
+    /** Absent for saves from before levels could be changed, see `MARKED_LEVEL`. */
+    metricalLevel?: MetricalLevel;
+    subdivision?: {
+      type: SubdivisionType;
+      marks: number[];
+      /** Written for other tools, estimated again when loading. */
+      swingRatio?: number | null;
+    };
+    markedBeats: number[];
+    inferredBeats: number[];
+    downbeats?: number[];
+    /** Inferred subdivision onsets, not read back. */
+    subdivisions?: number[];
+  }[];
+};
+
+export type SaveWithMetadata = {
+  fileName: string;
+  fileSize: number;
+  duration: number;
+} & SaveObject;
+
+const KNOWN_REGION_FIELDS = new Set<keyof SaveObject["tempoRegions"][number]>([
+  "offbeatsMarked",
+  "suggested",
+  "tempo",
+  "meter",
+  "metricalLevel",
+  "subdivision",
+  "markedBeats",
+  "inferredBeats",
+  "downbeats",
+  "subdivisions",
+]);
+const KNOWN_SAVE_FIELDS = new Set<keyof SaveWithMetadata>([
+  "version",
+  "tempoRegions",
+  "fileName",
+  "fileSize",
+  "duration",
+]);
+
+/** Fields of `object` that are not in `known`, to be written back as they are. */
+function unknownFields(
+  object: object,
+  known: Set<string>,
+): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(object).filter(([key]) => !known.has(key)),
+  );
+}
+
+/**
+ * Moves all times of a save by `offset` seconds, for audio that was trimmed
+ * or padded since it was annotated. Beats that end up outside of the audio
+ * are dropped, and with them regions that lose all marked beats.
+ */
+export function offsetSave(
+  save: SaveObject,
+  offset: number,
+  duration: number,
+): SaveObject {
+  const shift = (times: number[]) =>
+    times.map((t) => t + offset).filter((t) => 0 <= t && t < duration);
+  return {
+    ...save,
+    tempoRegions: save.tempoRegions
+      .map((r) => ({
+        ...r,
+        ...(r.meter !== undefined && {
+          meter: { ...r.meter, downbeatTime: r.meter.downbeatTime + offset },
+        }),
+        markedBeats: shift(r.markedBeats),
+        inferredBeats: shift(r.inferredBeats),
+        ...(r.downbeats !== undefined && { downbeats: shift(r.downbeats) }),
+        ...(r.subdivision !== undefined && {
+          subdivision: { ...r.subdivision, marks: shift(r.subdivision.marks) },
+        }),
+        ...(r.subdivisions !== undefined && {
+          subdivisions: shift(r.subdivisions),
+        }),
+      }))
+      .filter((r) => r.markedBeats.length > 0),
+  };
+}
+
+/**
+ * The model's mutable state. The core only ever mutates it in place, so a
+ * UI layer can pass in a reactive object and observe every change.
+ */
+export type AnnotateState = {
+  regions: TempoRegion[];
+  selectedRegionId: number | null;
+  /** Incremented whenever beats or regions change. */
+  revision: number;
+  canUndo: boolean;
+  canRedo: boolean;
+  snapSettings: SnapSettings;
+};
+
+export function initialAnnotateState(): AnnotateState {
+  return {
+    regions: [],
+    selectedRegionId: null,
+    revision: 0,
+    canUndo: false,
+    canRedo: false,
+    snapSettings: { enabled: false, window: 0.05 },
+  };
+}
+
+export type AnnotateOptions = {
+  duration: number;
+  save: (obj: SaveObject) => void;
+  loadSaved: SaveObject | null;
+  /** Defaults to a plain object. */
+  state?: AnnotateState;
+  /**
+   * Deep copy of (a part of) the state for the undo history, needed if the
+   * state is a proxy that `structuredClone` can not copy.
+   */
+  snapshot?: <T>(value: T) => T;
+};
+
+/**
+ * Tempo regions and beats of one audio file, free of any UI framework. See
+ * `annotate.svelte.ts` for the reactive version the app uses.
+ */
+export const AnnotateCore = (opts: AnnotateOptions): IAnnotate => {
+  const duration = opts.duration;
+  const snapshotOf = opts.snapshot ?? structuredClone;
+  const nextRegionId = incrementingId();
+  const state = opts.state ?? initialAnnotateState();
+  const regions = state.regions;
+  let saveExtraFields: Record<string, unknown> = {};
+  // saves of a newer version keep it, so that their fields are not migrated
+  // a second time by the version that wrote them
+  let saveVersion = SAVE_VERSION;
+  const nextUserBeatId = incrementingId();
+  const nextAutoBeatId = incrementingId();
+  const nextSubdivisionMarkId = incrementingId();
+  const userBeatsById = new Map<number, UserBeat>();
+  let viewport = { startTime: 0, endTime: 0 };
+  const history = UndoHistory<HistoryEntry>({ limit: HISTORY_LIMIT });
+  let snapTargets: number[] | null = null;
+
+  const snapTime = (time: number, snap: boolean): number => {
+    if (!snap || !state.snapSettings.enabled || snapTargets === null) {
+      return time;
+    }
+    const onset = nearest(snapTargets, time);
+    if (onset !== null && Math.abs(onset - time) <= state.snapSettings.window) {
+      return onset;
+    }
+    return time;
+  };
+
+  const reassignRegionIndices = () => {
+    for (let i = 0; i < regions.length; i++) {
+      regions[i].index = i;
+      for (let j = 0; j < regions[i].userBeats.length; j++) {
+        regions[i].userBeats[j].regionIndex = i;
+      }
+    }
+  };
+
+  const barLayouts = new Map<
+    number,
+    { grid: number[]; positions: BeatPosition[] }
+  >();
+
+  /**
+   * All beats of a region in ascending order: the inferred grid in fixed
+   * tempo regions or if offbeats are marked, marked and inferred beats
+   * interleaved otherwise.
+   */
+  const regionGrid = (region: TempoRegion): number[] => {
+    const auto = computeAutoBeats(region);
+    if (region.offbeatsMarked) {
+      return auto;
+    }
+    if (region.tempo.type !== "tapped" && auto.length > 0) {
+      return auto;
+    }
+    return [...region.userBeats.map((b) => b.time), ...auto].sort(
+      (a, b) => a - b,
+    );
+  };
+
+  const positionAt = (region: TempoRegion, time: number) => {
+    const layout = barLayouts.get(region.id);
+    if (layout === undefined || layout.grid.length === 0) {
+      return null;
+    }
+    return layout.positions[nearestIndex(layout.grid, time)];
+  };
+
+  const assignBarPositions = () => {
+    barLayouts.clear();
+    let bar = 1;
+    for (const region of regions) {
+      const grid = regionGrid(region);
+      const { positions, nextBar } = barPositions(grid, region.meter, bar);
+      bar = nextBar;
+      barLayouts.set(region.id, { grid, positions });
+      for (const b of region.userBeats) {
+        b.position = region.offbeatsMarked ? null : positionAt(region, b.time);
+      }
+    }
+  };
+
+  /**
+   * Moves subdivision marks to the region they now lie in after boundaries
+   * moved, marks outside of all regions are dropped. Then estimates the
+   * swing ratio of every region.
+   */
+  const reassignSubdivisionMarks = () => {
+    const marks = regions.flatMap((r) => r.subdivision.marks);
+    for (const region of regions) {
+      region.subdivision.marks = marks
+        .filter((m) => region.startTime <= m.time && m.time < region.endTime)
+        .sort((a, b) => a.time - b.time);
+      region.swingRatio = estimateSwingRatio(
+        barLayouts.get(region.id)?.grid ?? [],
+        region.subdivision.marks.map((m) => m.time),
+        region.subdivision.type,
+      );
+    }
+  };
+
+  const computeSubdivisions = (region: TempoRegion): number[] => {
+    return subdivisionTimes(
+      barLayouts.get(region.id)?.grid ?? [],
+      region.subdivision.type,
+      region.swingRatio,
+      region.endTime,
+    );
+  };
+
+  // regions changed by the edits inside `batch`, recomputed once at the end
+  let batchedRegions: Set<TempoRegion> | null = null;
+  let batchChanged = false;
+
+  const onRegionsChanged = (regions: TempoRegion[], doSave = true) => {
+    if (batchedRegions !== null && doSave) {
+      for (const region of regions) {
+        batchedRegions.add(region);
+      }
+      batchChanged = true;
+      return;
+    }
+    for (const region of regions) {
+      if (isTappedTempo(region)) {
+        recomputeTempo(region);
+        setTimesBetweenBeats(region);
+      } else if (isFixedTempo(region)) {
+        recomputePhaseOffset(region);
+      } else if (isRampTempo(region)) {
+        if (!region.tempo.manual) {
+          fitRampTempo(region);
+        }
+        recomputeRampPhaseOffset(region);
+      }
+    }
+    assignBarPositions();
+    reassignSubdivisionMarks();
+    drawAutopoints(regions);
+    state.revision += 1;
+    if (doSave) {
+      saveState();
+      history.push(snapshot());
+      syncHistoryState();
+    }
+  };
+
+  const snapshot = (): HistoryEntry => {
+    return {
+      regions: snapshotOf(regions).map((r) => ({ ...r, autoBeats: [] })),
+      selectedRegionId: state.selectedRegionId,
+    };
+  };
+
+  const syncHistoryState = () => {
+    state.canUndo = history.canUndo;
+    state.canRedo = history.canRedo;
+  };
+
+  const restoreSnapshot = (entry: HistoryEntry) => {
+    regions.splice(0, regions.length, ...structuredClone(entry.regions));
+    rebuildUserBeatIndex();
+    reassignRegionIndices();
+    state.selectedRegionId = entry.selectedRegionId;
+    onRegionsChanged(regions, false);
+    // autosave follows the history position, so a reload restores exactly
+    // what is on screen
+    saveState();
+    syncHistoryState();
+  };
+
+  const undo = () => {
+    const entry = history.undo();
+    if (entry !== null) {
+      restoreSnapshot(entry);
+    }
+  };
+
+  const redo = () => {
+    const entry = history.redo();
+    if (entry !== null) {
+      restoreSnapshot(entry);
+    }
+  };
+  const saveObject = (): SaveObject => {
+    const roundTime = (t: number) => {
+      const n = 6;
+      return Math.round(t * Math.pow(10, n)) / Math.pow(10, n);
+    };
+    const j: SaveObject = {
+      ...saveExtraFields,
+      version: saveVersion,
+      tempoRegions: regions.map((r) => {
+        const inferredBeats: number[] = computeAutoBeats(r);
+        const layout = barLayouts.get(r.id);
+        const downbeats =
+          layout?.grid
+            .filter((_, i) => layout.positions[i].beat === 1)
+            .map(roundTime) ?? [];
+        return {
+          // plain data, nested values in reactive state are proxies
+          ...snapshotOf(r.extraFields),
+          tempo: (() => {
+            switch (r.tempo.type) {
+              case "fixed":
+                return { type: "fixed", bpm: r.tempo.bpm };
+              case "tapped":
+                return { type: "tapped" };
+              case "ramp":
+                return {
+                  type: "ramp",
+                  startBpm: r.tempo.startBpm,
+                  endBpm: r.tempo.endBpm,
+                  curve: r.tempo.curve,
+                  manual: r.tempo.manual,
+                };
+            }
+          })(),
+          offbeatsMarked: r.offbeatsMarked,
+          suggested: r.suggested,
+          meter: { ...r.meter },
+          metricalLevel: { ...r.metricalLevel },
+          subdivision: {
+            type: r.subdivision.type,
+            marks: r.subdivision.marks.map((m) => roundTime(m.time)),
+            swingRatio: r.swingRatio !== null ? roundTime(r.swingRatio) : null,
+          },
+          markedBeats: r.userBeats.map((b) => roundTime(b.time)),
+          inferredBeats,
+          downbeats,
+          subdivisions: computeSubdivisions(r).map(roundTime),
+        };
+      }),
+    };
+    return j;
+  };
+  const saveState = (): SaveObject => {
+    const j = saveObject();
+    opts.save(j);
+    return j;
+  };
+  /**
+   * The region that starts at `time` when `containingRegion` is split there,
+   * continuing its tempo, meter and offbeat setting.
+   */
+  const regionSplitOff = (
+    containingRegion: TempoRegion,
+    time: number,
+    userBeats: UserBeat[],
+  ): TempoRegion => {
+    return {
+      id: nextRegionId(),
+      index: containingRegion.index + 1,
+      userBeats,
+      autoBeats: [],
+      startTime: time,
+      endTime: containingRegion.endTime,
+      tempo: (() => {
+        switch (containingRegion.tempo.type) {
+          case "fixed":
+            return {
+              type: "fixed",
+              bpm: containingRegion.tempo.bpm,
+              phaseOffset: 0,
+            };
+          case "tapped":
+            return { type: "tapped", value: null };
+          case "ramp":
+            // the new region continues at the tempo reached so far
+            return {
+              ...containingRegion.tempo,
+              startBpm: rampBpmAt(
+                containingRegion.tempo,
+                rampSpan(containingRegion),
+                time,
+              ),
+              phaseOffset: 0,
+            };
+        }
+      })(),
+      offbeatsMarked: containingRegion.offbeatsMarked,
+      suggested: containingRegion.suggested,
+      // a tempo or meter change usually falls on a downbeat
+      meter: {
+        beatsPerBar: containingRegion.meter.beatsPerBar,
+        downbeatTime: time,
+      },
+      metricalLevel: { ...containingRegion.metricalLevel },
+      // marks after `time` move over in `reassignSubdivisionMarks`
+      subdivision: { type: containingRegion.subdivision.type, marks: [] },
+      swingRatio: null,
+      extraFields: { ...containingRegion.extraFields },
+    };
+  };
+
+  const addPoint = ({
+    time: clickedTime,
+    isTempoChange,
+    snap = false,
+  }: {
+    time: number;
+    isTempoChange: boolean;
+    snap?: boolean;
+  }) => {
+    const time = snapTime(clickedTime, snap);
+    if (regions.length === 0) {
+      const r: TempoRegion = {
+        id: nextRegionId(),
+        index: 0,
+        startTime: time,
+        endTime: duration,
+        userBeats: [],
+        autoBeats: [],
+        tempo: { type: "tapped", value: null },
+        offbeatsMarked: false,
+        suggested: false,
+        meter: { beatsPerBar: DEFAULT_BEATS_PER_BAR, downbeatTime: time },
+        metricalLevel: MARKED_LEVEL,
+        subdivision: { type: "none", marks: [] },
+        swingRatio: null,
+        extraFields: {},
+      };
+      regions.push(r);
+      state.selectedRegionId = regions[0].id;
+    }
+    const containingRegionIndex = (() => {
+      if (time < regions[0].startTime) {
+        return 0;
+      }
+      return regions.findIndex((r) => r.startTime <= time && time < r.endTime);
+    })();
+    if (containingRegionIndex < 0) {
+      return null;
+    }
+    const containingRegion = regions[containingRegionIndex];
+    console.assert(
+      isSortedAscending(containingRegion.userBeats, (b) => b.time),
+    );
+    const firstIdxAfter = containingRegion.userBeats.findIndex(
+      (p) => time < p.time,
+    );
+    const insertAt =
+      firstIdxAfter >= 0 ? firstIdxAfter : containingRegion.userBeats.length;
+    const pointAfter = (() => {
+      if (insertAt < containingRegion.userBeats.length) {
+        return containingRegion.userBeats[insertAt];
+      } else if (containingRegion.index < regions.length - 1) {
+        return regions[containingRegion.index + 1].userBeats[0];
+      } else {
+        return null;
+      }
+    })();
+    const pointBefore = (() => {
+      if (insertAt > 0) {
+        return containingRegion.userBeats[insertAt - 1];
+      } else if (containingRegion.index > 0) {
+        return regions[containingRegion.index - 1].userBeats[0];
+      } else {
+        return null;
+      }
+    })();
+    if (pointAfter !== null && pointAfter.time - time < MIN_BEAT_SPACING) {
+      // too close to point after
+      return null;
+    }
+    let changedRegions: TempoRegion[] = [];
+    if (isTempoChange) {
+      const createNewRegion = !(containingRegionIndex === 0 && insertAt === 0);
+
+      if (createNewRegion) {
+        const newRegionIndex = containingRegion.index + 1;
+        const newBeat: UserBeat = {
+          id: nextUserBeatId(),
+          markerType: "user",
+          regionIndex: newRegionIndex,
+          isTempoChange: true,
+          time,
+          localBeatPeriod: null,
+          residual: null,
+          offGrid: false,
+          position: null,
+        };
+        const removedFromContaining = containingRegion.userBeats.splice(
+          insertAt,
+          containingRegion.userBeats.length - insertAt,
+        );
+        const newRegionPoints = [newBeat].concat(removedFromContaining);
+        const newRegion = regionSplitOff(
+          containingRegion,
+          time,
+          newRegionPoints,
+        );
+        containingRegion.endTime = time;
+        regions.splice(newRegionIndex, 0, newRegion);
+        userBeatsById.set(newBeat.id, regions[newRegionIndex].userBeats[0]);
+        reassignRegionIndices();
+        changedRegions.push(regions[newRegionIndex], containingRegion);
+        state.selectedRegionId = newRegion.id;
+      } else {
+        containingRegion.startTime = time;
+        const newBeat: UserBeat = {
+          markerType: "user",
+          id: nextUserBeatId(),
+          time,
+          regionIndex: containingRegionIndex,
+          isTempoChange: true,
+          localBeatPeriod: null,
+          residual: null,
+          offGrid: false,
+          position: null,
+        };
+        if (containingRegion.userBeats.length > 0) {
+          containingRegion.userBeats[0].isTempoChange = false;
+        }
+        containingRegion.userBeats.splice(insertAt, 0, newBeat);
+        userBeatsById.set(newBeat.id, containingRegion.userBeats[insertAt]);
+        changedRegions.push(containingRegion);
+        state.selectedRegionId = containingRegion.id;
+      }
+    } else {
+      if (pointBefore !== null && time - pointBefore.time < MIN_BEAT_SPACING) {
+        return null;
+      }
+      const newBeat: UserBeat = {
+        markerType: "user",
+        id: nextUserBeatId(),
+        time,
+        regionIndex: containingRegionIndex,
+        isTempoChange: false,
+        localBeatPeriod: 0,
+        residual: null,
+        offGrid: false,
+        position: null,
+      };
+      containingRegion.userBeats.splice(insertAt, 0, newBeat);
+      userBeatsById.set(newBeat.id, containingRegion.userBeats[insertAt]);
+      containingRegion.startTime = Math.min(
+        newBeat.time,
+        containingRegion.startTime,
+      );
+      state.selectedRegionId = containingRegion.id;
+      changedRegions.push(containingRegion);
+    }
+    onRegionsChanged(changedRegions);
+  };
+
+  const addBeats = (regionId: number | null, times: number[]): number => {
+    const region =
+      regionId !== null ? regions.find((r) => r.id === regionId) : undefined;
+    if (region === undefined && regionId !== null) {
+      console.error("added beats to nonexistent region");
+      return 0;
+    }
+    const inRegion = (t: number) =>
+      region === undefined ||
+      ((t >= region.startTime || region.index === 0) && t < region.endTime);
+    const countBeats = () =>
+      regions.reduce((n, r) => n + r.userBeats.length, 0);
+    const before = countBeats();
+    batch(() => {
+      for (const time of times.filter(inRegion)) {
+        addPoint({ time, isTempoChange: false, snap: true });
+      }
+    });
+    return countBeats() - before;
+  };
+
+  /** Runs several edits as one, with one recomputation and history entry. */
+  const batch = (edit: () => void) => {
+    batchedRegions = new Set();
+    batchChanged = false;
+    try {
+      edit();
+    } finally {
+      const changed = [...batchedRegions].filter((r) => regions.includes(r));
+      batchedRegions = null;
+      if (batchChanged) {
+        onRegionsChanged(changed);
+      }
+    }
+  };
+
+  const deleteBeats = (ids: number[]) => {
+    const beats = ids
+      .map((id) => userBeatsById.get(id))
+      .filter((b) => b !== undefined)
+      .sort((a, b) => b.time - a.time);
+    batch(() => {
+      for (const beat of beats) {
+        if (userBeatsById.has(beat.id)) {
+          deletePoint(beat.id);
+        }
+      }
+    });
+  };
+
+  /** Moves beats to the given times, in an order that leaves them room. */
+  const moveBeats = (moves: { id: number; time: number }[]) => {
+    const withFrom = moves.flatMap((m) => {
+      const beat = userBeatsById.get(m.id);
+      return beat !== undefined ? [{ ...m, from: beat.time }] : [];
+    });
+    // beats moving earlier go first from the front, later ones from the back
+    const earlier = withFrom
+      .filter((m) => m.time < m.from)
+      .sort((a, b) => a.from - b.from);
+    const later = withFrom
+      .filter((m) => m.time > m.from)
+      .sort((a, b) => b.from - a.from);
+    batch(() => {
+      for (const { id, time } of [...earlier, ...later]) {
+        tryMovePoint(id, time, "end");
+      }
+    });
+  };
+
+  const nudgeBeats = (ids: number[], offset: number) => {
+    moveBeats(
+      ids
+        .map((id) => userBeatsById.get(id))
+        .filter((b) => b !== undefined)
+        .map((b) => ({ id: b.id, time: b.time + offset })),
+    );
+  };
+
+  const quantizeBeats = (ids: number[]) => {
+    // the residual is the distance to the region's fitted grid
+    moveBeats(
+      ids
+        .map((id) => userBeatsById.get(id))
+        .filter(
+          (b): b is UserBeat & { residual: number } =>
+            b !== undefined && b.residual !== null,
+        )
+        .map((b) => ({ id: b.id, time: b.time - b.residual })),
+    );
+  };
+
+  const deleteAll = () => {
+    if (regions.length === 0) {
+      return;
+    }
+    regions.splice(0, regions.length);
+    userBeatsById.clear();
+    state.selectedRegionId = null;
+    onRegionsChanged([]);
+  };
+
+  const deletePoint = (id: number) => {
+    const beat = userBeatsById.get(id);
+    assertNotNull(beat, "beat by id is null");
+    let changedRegions: TempoRegion[] = [];
+    const containingRegion = regions[beat.regionIndex];
+    if (beat.isTempoChange) {
+      console.assert(containingRegion.userBeats[0].id === beat.id);
+      if (containingRegion.index > 0) {
+        const previousRegion = regions[containingRegion.index - 1];
+        previousRegion.userBeats.splice(
+          previousRegion.userBeats.length,
+          0,
+          ...containingRegion.userBeats.slice(1),
+        );
+        previousRegion.subdivision.marks.push(
+          ...containingRegion.subdivision.marks,
+        );
+        previousRegion.endTime = containingRegion.endTime;
+        regions.splice(containingRegion.index, 1);
+        reassignRegionIndices();
+        changedRegions.push(previousRegion);
+        if (state.selectedRegionId === containingRegion.id) {
+          state.selectedRegionId = previousRegion.id;
+        }
+      } else {
+        return;
+      }
+    } else {
+      const idxInRegion = containingRegion.userBeats.findIndex(
+        (b) => b.id === id,
+      );
+      console.assert(idxInRegion >= 0);
+      if (idxInRegion === 0) {
+        console.assert(containingRegion.index === 0);
+      }
+      containingRegion.userBeats.splice(idxInRegion, 1);
+      if (containingRegion.userBeats.length > 0) {
+        containingRegion.startTime = containingRegion.userBeats[0].time;
+        changedRegions.push(containingRegion);
+      } else {
+        regions.splice(containingRegion.index, 1);
+        if (state.selectedRegionId === containingRegion.id) {
+          state.selectedRegionId = null;
+        }
+        reassignRegionIndices();
+      }
+    }
+    onRegionsChanged(changedRegions);
+  };
+
+  const splitRegion = (regionId: number, time: number): boolean => {
+    const region = regions.find((r) => r.id === regionId);
+    assertNotNull(region, "region by id is null");
+    const first = region.userBeats[0];
+    if (
+      first === undefined ||
+      time - first.time < MIN_BEAT_SPACING ||
+      time >= region.endTime
+    ) {
+      return false;
+    }
+    // a marked beat closer than the minimum spacing becomes the tempo change
+    const near = region.userBeats.findIndex(
+      (b, i) => i > 0 && Math.abs(b.time - time) < MIN_BEAT_SPACING,
+    );
+    let moved: UserBeat[];
+    if (near >= 0) {
+      moved = region.userBeats.splice(near, region.userBeats.length - near);
+      moved[0].isTempoChange = true;
+    } else {
+      const after = region.userBeats.findIndex((b) => b.time > time);
+      const at = after >= 0 ? after : region.userBeats.length;
+      moved = [
+        {
+          markerType: "user",
+          id: nextUserBeatId(),
+          time,
+          regionIndex: region.index + 1,
+          isTempoChange: true,
+          localBeatPeriod: null,
+          residual: null,
+          offGrid: false,
+          position: null,
+        },
+        ...region.userBeats.splice(at, region.userBeats.length - at),
+      ];
+    }
+    const newRegion = regionSplitOff(region, moved[0].time, moved);
+    region.endTime = newRegion.startTime;
+    regions.splice(region.index + 1, 0, newRegion);
+    rebuildUserBeatIndex();
+    reassignRegionIndices();
+    state.selectedRegionId = newRegion.id;
+    onRegionsChanged([region, regions[region.index + 1]]);
+    return true;
+  };
+
+  const mergeRegions = (
+    regionId: number,
+    direction: "previous" | "next",
+  ): boolean => {
+    const region = regions.find((r) => r.id === regionId);
+    assertNotNull(region, "region by id is null");
+    const firstIndex =
+      direction === "previous" ? region.index - 1 : region.index;
+    if (firstIndex < 0 || firstIndex + 1 >= regions.length) {
+      return false;
+    }
+    const first = regions[firstIndex];
+    const second = regions[firstIndex + 1];
+    // the tempo change stays as an ordinary beat
+    second.userBeats[0].isTempoChange = false;
+    first.userBeats.push(...second.userBeats);
+    first.subdivision.marks.push(...second.subdivision.marks);
+    first.endTime = second.endTime;
+    regions.splice(firstIndex + 1, 1);
+    rebuildUserBeatIndex();
+    reassignRegionIndices();
+    state.selectedRegionId = first.id;
+    onRegionsChanged([first]);
+    return true;
+  };
+
+  const shiftRegion = (regionId: number, offset: number): number => {
+    const region = regions.find((r) => r.id === regionId);
+    assertNotNull(region, "region by id is null");
+    const beats = region.userBeats;
+    const prev = region.index > 0 ? regions[region.index - 1] : null;
+    const next =
+      region.index < regions.length - 1 ? regions[region.index + 1] : null;
+    // beats keep their spacing to the neighbouring regions and the audio ends
+    const earliest =
+      prev !== null
+        ? prev.userBeats[prev.userBeats.length - 1].time + MIN_BEAT_SPACING
+        : 0;
+    const latest =
+      next !== null ? next.userBeats[0].time - MIN_BEAT_SPACING : duration;
+    const applied =
+      offset > 0
+        ? Math.min(offset, Math.max(0, latest - beats[beats.length - 1].time))
+        : Math.max(offset, Math.min(0, earliest - beats[0].time));
+    if (applied === 0) {
+      return 0;
+    }
+    for (const beat of beats) {
+      beat.time += applied;
+    }
+    for (const mark of region.subdivision.marks) {
+      mark.time += applied;
+    }
+    region.startTime = beats[0].time;
+    region.meter = {
+      ...region.meter,
+      downbeatTime: region.meter.downbeatTime + applied,
+    };
+    const changedRegions = [region];
+    if (prev !== null) {
+      prev.endTime = region.startTime;
+      changedRegions.push(prev);
+    }
+    onRegionsChanged(changedRegions);
+    return applied;
+  };
+
+  const moveRegionBoundary = (regionId: number, time: number): number => {
+    const region = regions.find((r) => r.id === regionId);
+    assertNotNull(region, "region by id is null");
+    if (region.index === 0) {
+      return region.startTime;
+    }
+    const prev = regions[region.index - 1];
+    const beats = [...prev.userBeats, ...region.userBeats];
+    // any beat but the first of the previous region can start the region
+    let boundary = 1;
+    for (let i = 2; i < beats.length; i++) {
+      if (
+        Math.abs(beats[i].time - time) < Math.abs(beats[boundary].time - time)
+      ) {
+        boundary = i;
+      }
+    }
+    const oldStart = region.startTime;
+    const newStart = beats[boundary].time;
+    if (newStart === oldStart) {
+      return oldStart;
+    }
+    region.userBeats[0].isTempoChange = false;
+    beats[boundary].isTempoChange = true;
+    prev.userBeats.splice(
+      0,
+      prev.userBeats.length,
+      ...beats.slice(0, boundary),
+    );
+    region.userBeats.splice(
+      0,
+      region.userBeats.length,
+      ...beats.slice(boundary),
+    );
+    prev.endTime = newStart;
+    region.startTime = newStart;
+    if (region.meter.downbeatTime === oldStart) {
+      region.meter = { ...region.meter, downbeatTime: newStart };
+    }
+    rebuildUserBeatIndex();
+    reassignRegionIndices();
+    onRegionsChanged([prev, region]);
+    return newStart;
+  };
+
+  const tryMovePoint = (
+    id: number,
+    toTime: number,
+    what: "start" | "move" | "end",
+    snap = false,
+  ): number => {
+    const beat = userBeatsById.get(id);
+    assertNotNull(beat, "beat by id is null");
+    const containingRegion = regions[beat.regionIndex];
+    const prevRegion =
+      beat.regionIndex > 0 ? regions[beat.regionIndex - 1] : null;
+    console.assert(
+      isSortedAscending(containingRegion.userBeats, (b) => b.time),
+    );
+    const beatIdx = containingRegion.userBeats.findIndex(
+      (b) => b.id === beat.id,
+    );
+    console.assert(beatIdx >= 0);
+    let clamped = snapTime(toTime, snap);
+    if (beatIdx > 0) {
+      clamped = Math.max(
+        clamped,
+        containingRegion.userBeats[beatIdx - 1].time + MIN_BEAT_SPACING,
+      );
+    } else if (prevRegion !== null) {
+      if (prevRegion.userBeats.length > 0) {
+        clamped = Math.max(
+          clamped,
+          prevRegion.userBeats[prevRegion.userBeats.length - 1].time +
+            MIN_BEAT_SPACING,
+        );
+      }
+    } else {
+      clamped = Math.max(clamped, 0);
+    }
+    if (beatIdx < containingRegion.userBeats.length - 1) {
+      clamped = Math.min(
+        clamped,
+        containingRegion.userBeats[beatIdx + 1].time - MIN_BEAT_SPACING,
+      );
+    } else if (containingRegion.index < regions.length - 1) {
+      const nextRegion = regions[containingRegion.index + 1];
+      clamped = Math.min(
+        clamped,
+        nextRegion.userBeats[0].time - MIN_BEAT_SPACING,
+      );
+    }
+    if (
+      containingRegion.index === regions.length - 1 &&
+      beatIdx === containingRegion.userBeats.length - 1
+    ) {
+      clamped = Math.min(clamped, duration);
+    }
+
+    beat.time = clamped;
+    if (beatIdx === 0) {
+      containingRegion.startTime = clamped;
+      if (prevRegion !== null) {
+        prevRegion.endTime = clamped;
+      }
+    }
+    if (what === "end") {
+      onRegionsChanged([containingRegion]);
+    }
+    return clamped;
+  };
+
+  const setViewport = (v: { startTime: number; endTime: number }) => {
+    if (v.startTime === viewport.startTime && v.endTime === viewport.endTime) {
+      return;
+    }
+    viewport = v;
+    drawAutopoints([]);
+  };
+
+  /** The beat grid through the user beats, whether they are on- or offbeats. */
+  const computeTapGrid = (region: TempoRegion): number[] => {
+    const beats: number[] = [];
+    if (region.tempo.type === "tapped" && region.tempo.value !== null) {
+      // one fitted grid, minus the grid positions that were marked
+      const { meanPeriod: period, phase, indices } = region.tempo.value;
+      const marked = new Set(indices);
+      for (let k = 0; phase + k * period < region.endTime; k++) {
+        if (!marked.has(k)) {
+          beats.push(phase + k * period);
+        }
+      }
+    } else if (region.tempo.type === "fixed") {
+      const period = 60 / region.tempo.bpm;
+      for (
+        let t = region.startTime + region.tempo.phaseOffset;
+        t < region.endTime;
+        t += period
+      ) {
+        beats.push(t);
+      }
+    } else if (region.tempo.type === "ramp") {
+      return rampBeats(
+        region.tempo,
+        rampSpan(region),
+        region.tempo.phaseOffset,
+        region.startTime,
+        region.endTime,
+      );
+    }
+    return beats;
+  };
+
+  const computeAutoBeats = (region: TempoRegion): number[] => {
+    const grid = computeTapGrid(region);
+    if (!region.offbeatsMarked) {
+      return grid;
+    }
+    const period = (() => {
+      switch (region.tempo.type) {
+        case "fixed":
+          return 60 / region.tempo.bpm;
+        case "tapped":
+          return region.tempo.value?.meanPeriod ?? null;
+        case "ramp":
+          return 60 / region.tempo.endBpm;
+      }
+    })();
+    if (period === null) {
+      return [];
+    }
+    // the fixed and ramp grids already run through the user beats
+    const offbeats =
+      region.tempo.type !== "tapped"
+        ? grid
+        : [...region.userBeats.map((b) => b.time), ...grid].sort(
+            (a, b) => a - b,
+          );
+    // each beat lies halfway to the next offbeat
+    const beats: number[] = [];
+    for (let i = 0; i < offbeats.length; i++) {
+      const next = i < offbeats.length - 1 ? offbeats[i + 1] : null;
+      const t =
+        next !== null ? (offbeats[i] + next) / 2 : offbeats[i] + period / 2;
+      if (t < region.endTime) {
+        beats.push(t);
+      }
+    }
+    return beats;
+  };
+
+  const beatsBetween = (
+    startTime: number,
+    endTime: number,
+  ): { time: number; markerType: Beat["markerType"] }[] => {
+    const beats: { time: number; markerType: Beat["markerType"] }[] = [];
+    for (const region of regions) {
+      if (region.endTime <= startTime || endTime <= region.startTime) {
+        continue;
+      }
+      for (const b of region.userBeats) {
+        if (startTime <= b.time && b.time < endTime) {
+          beats.push({ time: b.time, markerType: "user" });
+        }
+      }
+      for (const t of computeAutoBeats(region)) {
+        if (startTime <= t && t < endTime) {
+          beats.push({ time: t, markerType: "auto" });
+        }
+      }
+    }
+    beats.sort((a, b) => a.time - b.time);
+    return beats;
+  };
+
+  const drawAutopoints = (changedRegions: TempoRegion[]) => {
+    const drawBuffer = 30;
+    const drawStart = Math.max(viewport.startTime - drawBuffer, 0);
+    const drawEnd = Math.min(viewport.endTime + drawBuffer, duration);
+    let regionsInView: TempoRegion[] = [];
+    for (const r of regions) {
+      if (drawStart <= r.endTime && r.startTime < drawEnd) {
+        regionsInView.push(r);
+      } else {
+        r.autoBeats = [];
+      }
+    }
+    for (const region of regionsInView) {
+      const autoBeats = computeAutoBeats(region);
+      const recyclePoints = region.autoBeats.length;
+      let pointsRecycled = 0;
+      let pointsPlaced = 0;
+      for (const t of autoBeats) {
+        if (t < drawStart || drawEnd <= t) {
+          continue;
+        }
+        const position = positionAt(region, t);
+        if (pointsPlaced < recyclePoints) {
+          region.autoBeats[pointsPlaced].time = t;
+          region.autoBeats[pointsPlaced].position = position;
+          pointsRecycled++;
+        } else {
+          const newPoint: AutoBeat = {
+            id: nextAutoBeatId(),
+            markerType: "auto",
+            time: t,
+            regionIndex: region.index,
+            position,
+          };
+          region.autoBeats.push(newPoint);
+        }
+        pointsPlaced++;
+      }
+      if (pointsRecycled < recyclePoints) {
+        region.autoBeats.splice(
+          pointsRecycled,
+          region.autoBeats.length - pointsRecycled,
+        );
+      }
+      // const redrawAll =
+      //   changedRegions.findIndex((r) => r.id === region.id) >= 0;
+      // const redrawAll = true;
+      // if (region.tempo.type === "fixed") {
+      //   const beatPeriod = 60 / region.tempo.bpm;
+      //   if (redrawAll) {
+      //     for (
+      //       let t = region.startTime + region.tempo.phaseOffset;
+      //       t < Math.min(region.endTime, drawEnd);
+      //       t += beatPeriod
+      //     ) {
+      //       assertNotNull(t, "time is null");
+      //       if (t < drawStart || drawEnd <= t) {
+      //         continue;
+      //       }
+      //       if (pointsPlaced < recyclePoints) {
+      //         region.autoBeats[pointsPlaced].time = t;
+      //         pointsRecycled++;
+      //       } else {
+      //         const newPoint: AutoBeat = {
+      //           id: nextAutoBeatId(),
+      //           markerType: "auto",
+      //           time: t,
+      //           regionIndex: region.index,
+      //         };
+      //         region.autoBeats.push(newPoint);
+      //       }
+      //       pointsPlaced++;
+      //     }
+      //   }
+      // } else if (region.tempo.type === "tapped") {
+      //   if (region.tempo.value === null) {
+      //     region.autoBeats = [];
+      //   } else {
+      //     const recyclePoints = region.autoBeats.length;
+      //     let pointsRecycled = 0;
+      //     let pointsPlaced = 0;
+      //     for (const [i, userBeat] of region.userBeats.entries()) {
+      //       if (
+      //         i < region.userBeats.length - 1 &&
+      //         region.userBeats[i + 1].time < drawStart
+      //       ) {
+      //         continue;
+      //       }
+      //       // extend up to next beat
+      //       const upTo = Math.min(
+      //         i < region.userBeats.length - 1
+      //           ? region.userBeats[i + 1].time
+      //           : region.endTime,
+      //         drawEnd,
+      //       );
+      //       for (
+      //         let t = userBeat.time + region.tempo.value.meanPeriod;
+      //         t < upTo;
+      //         t += region.tempo.value.meanPeriod
+      //       ) {
+      //         if (t < drawStart) {
+      //           continue;
+      //         }
+      //         if (pointsPlaced < recyclePoints) {
+      //           region.autoBeats[pointsPlaced].time = t;
+      //           pointsRecycled++;
+      //         } else {
+      //           const newPoint: AutoBeat = {
+      //             id: nextAutoBeatId(),
+      //             markerType: "auto",
+      //             time: t,
+      //             regionIndex: region.index,
+      //           };
+      //           region.autoBeats.push(newPoint);
+      //         }
+      //         pointsPlaced += 1;
+      //       }
+      //     }
+      //     if (pointsRecycled < recyclePoints) {
+      //       region.autoBeats.splice(
+      //         pointsRecycled,
+      //         region.autoBeats.length - pointsRecycled,
+      //       );
+      //     }
+      //   }
+      // }
+    }
+  };
+
+  const setRegionType = (regionId: number, type: TempoType) => {
+    const region = regions.find((r) => r.id === regionId);
+    assertNotNull(region, "region by id is null");
+    if (region.tempo.type === type) {
+      return;
+    }
+    const bpm = (() => {
+      if (region.tempo.type === "tapped" && region.tempo.value !== null) {
+        return Math.round((60 / region.tempo.value.meanPeriod) * 100) / 100;
+      } else if (region.tempo.type === "ramp") {
+        return (
+          Math.round(
+            ((region.tempo.startBpm + region.tempo.endBpm) / 2) * 100,
+          ) / 100
+        );
+      } else if (region.tempo.type === "fixed") {
+        return region.tempo.bpm;
+      }
+      return 60;
+    })();
+    if (type === "fixed") {
+      region.tempo = { type: "fixed", bpm, phaseOffset: 0 };
+    } else if (type === "tapped") {
+      region.tempo = { type: "tapped", value: null };
+    } else {
+      region.tempo = {
+        type: "ramp",
+        startBpm: bpm,
+        endBpm: bpm,
+        curve: "linear",
+        phaseOffset: 0,
+        manual: false,
+      };
+    }
+    onRegionsChanged([region]);
+  };
+
+  const setRegionRamp = (regionId: number, ramp: Partial<Ramp>) => {
+    const region = regions.find((r) => r.id === regionId);
+    assertNotNull(region, "region by id is null");
+    if (!isRampTempo(region)) {
+      console.error("tried to set ramp on region of wrong type");
+      return;
+    }
+    const next = {
+      ...region.tempo,
+      ...ramp,
+      manual:
+        region.tempo.manual ||
+        ramp.startBpm !== undefined ||
+        ramp.endBpm !== undefined,
+    };
+    if (
+      !(0 < next.startBpm && next.startBpm < MAX_TEMPO) ||
+      !(0 < next.endBpm && next.endBpm < MAX_TEMPO)
+    ) {
+      console.error("ramp tempo out of range");
+      return;
+    }
+    (region as TempoRegion).tempo = next;
+    onRegionsChanged([region]);
+  };
+
+  const fitRegionRamp = (regionId: number) => {
+    const region = regions.find((r) => r.id === regionId);
+    assertNotNull(region, "region by id is null");
+    if (!isRampTempo(region)) {
+      console.error("tried to fit ramp on region of wrong type");
+      return;
+    }
+    // fitted in `onRegionsChanged`, and again after later beat changes
+    region.tempo.manual = false;
+    onRegionsChanged([region]);
+  };
+
+  const setRegionMeter = (regionId: number, meter: Partial<Meter>) => {
+    const region = regions.find((r) => r.id === regionId);
+    assertNotNull(region, "region by id is null");
+    if (
+      meter.beatsPerBar !== undefined &&
+      (!Number.isInteger(meter.beatsPerBar) || meter.beatsPerBar < 1)
+    ) {
+      console.error("beats per bar must be a positive integer");
+      return;
+    }
+    region.meter = { ...region.meter, ...meter };
+    onRegionsChanged([region]);
+  };
+
+  const setRegionOffbeatsMarked = (
+    regionId: number,
+    offbeatsMarked: boolean,
+  ) => {
+    const region = regions.find((r) => r.id === regionId);
+    assertNotNull(region, "region by id is null");
+    if (region.offbeatsMarked === offbeatsMarked) {
+      return;
+    }
+    region.offbeatsMarked = offbeatsMarked;
+    onRegionsChanged([region]);
+  };
+
+  const setRegionSubdivision = (regionId: number, type: SubdivisionType) => {
+    const region = regions.find((r) => r.id === regionId);
+    assertNotNull(region, "region by id is null");
+    if (region.subdivision.type === type) {
+      return;
+    }
+    region.subdivision.type = type;
+    onRegionsChanged([region]);
+  };
+
+  const changeMetricalLevel = (
+    regionId: number,
+    change: MetricalLevelChange,
+  ): boolean => {
+    const region = regions.find((r) => r.id === regionId);
+    assertNotNull(region, "region by id is null");
+    const beats = region.userBeats;
+    if (beats.length < 2) {
+      return false;
+    }
+    const steps = beats.slice(1).map((b, i) => {
+      const interval = b.time - beats[i].time;
+      const period =
+        beatPeriodAt(region, (b.time + beats[i].time) / 2) ?? interval;
+      return Math.max(1, Math.round(interval / period));
+    });
+    const rescaled = rescaleBeats(
+      beats.map((b) => b.time),
+      steps,
+      change,
+    );
+    const { ratio } = metricalLevelChanges[change];
+    const factor = ratio.numerator / ratio.denominator;
+    const tooFast =
+      (region.tempo.type === "fixed" &&
+        region.tempo.bpm * factor > MAX_TEMPO) ||
+      (region.tempo.type === "ramp" &&
+        Math.max(region.tempo.startBpm, region.tempo.endBpm) * factor >
+          MAX_TEMPO);
+    if (
+      tooFast ||
+      rescaled.length < 2 ||
+      rescaled.some(
+        (b, i) => i > 0 && b.time - rescaled[i - 1].time < MIN_BEAT_SPACING,
+      )
+    ) {
+      return false;
+    }
+    const isTempoChange = beats[0].isTempoChange;
+    const newBeats = rescaled.map(({ time, from }): UserBeat => {
+      if (from !== null) {
+        return { ...beats[from], isTempoChange: false };
+      }
+      return {
+        id: nextUserBeatId(),
+        markerType: "user",
+        regionIndex: region.index,
+        isTempoChange: false,
+        time,
+        localBeatPeriod: null,
+        residual: null,
+        offGrid: false,
+        position: null,
+      };
+    });
+    newBeats[0].isTempoChange = isTempoChange;
+    region.userBeats.splice(0, region.userBeats.length, ...newBeats);
+    region.startTime = newBeats[0].time;
+    if (region.tempo.type === "fixed") {
+      region.tempo.bpm *= factor;
+    } else if (region.tempo.type === "ramp") {
+      region.tempo.startBpm *= factor;
+      region.tempo.endBpm *= factor;
+    }
+    // bars keep their length
+    const beatsPerBar = region.meter.beatsPerBar * factor;
+    if (Number.isInteger(beatsPerBar) && beatsPerBar >= 1) {
+      region.meter = { ...region.meter, beatsPerBar };
+    }
+    region.metricalLevel = scaleMetricalLevel(region.metricalLevel, ratio);
+    const changedRegions = [region];
+    if (region.index > 0) {
+      const prev = regions[region.index - 1];
+      prev.endTime = region.startTime;
+      changedRegions.push(prev);
+    }
+    rebuildUserBeatIndex();
+    onRegionsChanged(changedRegions);
+    return true;
+  };
+
+  const addSubdivisionMark = (time: number, snap = false): boolean => {
+    const t = snapTime(time, snap);
+    const region = regions.find((r) => r.startTime <= t && t < r.endTime);
+    if (region === undefined) {
+      return false;
+    }
+    region.subdivision.marks.push({ id: nextSubdivisionMarkId(), time: t });
+    onRegionsChanged([region]);
+    return true;
+  };
+
+  const deleteSubdivisionMark = (id: number) => {
+    const region = regions.find((r) =>
+      r.subdivision.marks.some((m) => m.id === id),
+    );
+    assertNotNull(region, "subdivision mark by id is null");
+    region.subdivision.marks = region.subdivision.marks.filter(
+      (m) => m.id !== id,
+    );
+    onRegionsChanged([region]);
+  };
+
+  const subdivisionsBetween = (startTime: number, endTime: number) => {
+    return regions
+      .filter((r) => startTime < r.endTime && r.startTime < endTime)
+      .flatMap((r) =>
+        computeSubdivisions(r).filter((t) => startTime <= t && t < endTime),
+      );
+  };
+
+  const setRegionFixedTempo = (regionId: number, bpm: number) => {
+    const region = regions.find((r) => r.id === regionId);
+    assertNotNull(region, "region by id is null");
+    if (isFixedTempo(region)) {
+      region.tempo.bpm = bpm;
+      onRegionsChanged([region]);
+    } else {
+      console.error("tried to set fixed tempo on region of wrong type");
+    }
+  };
+
+  const fitFixedTempo = (regionId: number) => {
+    const region = regions.find((r) => r.id === regionId);
+    assertNotNull(region, "region by id is null");
+    const fit = fitBeatGrid(region.userBeats.map((b) => b.time));
+    if (fit === null) {
+      console.error("fitting a tempo needs at least two marked beats");
+      return;
+    }
+    const bpm = Math.round((60 / fit.period) * 100) / 100;
+    if (!(0 < bpm && bpm < MAX_TEMPO)) {
+      console.error("fitted tempo out of range");
+      return;
+    }
+    // the phase is refitted for the rounded tempo by onRegionsChanged
+    region.tempo = { type: "fixed", bpm, phaseOffset: 0 };
+    onRegionsChanged([region]);
+  };
+
+  const regionsFromSave = (
+    tempoRegions: SaveObject["tempoRegions"],
+  ): TempoRegion[] => {
+    const nonEmpty = tempoRegions.filter((region) => {
+      if (region.markedBeats.length === 0) {
+        console.error("save file contains tempo region with 0 beats");
+        return false;
+      }
+      return true;
+    });
+    const loadedRegions: TempoRegion[] = [];
+    for (const [regionIdx, savedRegion] of nonEmpty.entries()) {
+      const tempo: Tempo = (() => {
+        switch (savedRegion.tempo.type) {
+          case "fixed":
+            return {
+              type: "fixed",
+              bpm: savedRegion.tempo.bpm,
+              phaseOffset: 0,
+            };
+          case "tapped":
+            return { type: "tapped", value: null };
+          case "ramp":
+            return {
+              ...savedRegion.tempo,
+              phaseOffset: 0,
+              manual: savedRegion.tempo.manual ?? false,
+            };
+        }
+      })();
+      const startTime = savedRegion.markedBeats[0];
+      const endTime =
+        regionIdx < nonEmpty.length - 1
+          ? nonEmpty[regionIdx + 1].markedBeats[0]
+          : duration;
+      if (startTime >= endTime) {
+        throw new Error(
+          "invalid region start/end times: " + startTime + ", " + endTime,
+        );
+      }
+      if (!isSortedAscending(savedRegion.markedBeats, (v) => v)) {
+        throw new Error("invalid save file: beats not in ascending order");
+      }
+      const userBeats: UserBeat[] = savedRegion.markedBeats.map(
+        (beat, beatIdx) => {
+          return {
+            id: nextUserBeatId(),
+            time: beat,
+            isTempoChange: beatIdx == 0,
+            markerType: "user",
+            regionIndex: regionIdx,
+            localBeatPeriod: null,
+            residual: null,
+            offGrid: false,
+            position: null,
+          };
+        },
+      );
+      const region: TempoRegion = {
+        id: nextRegionId(),
+        index: regionIdx,
+        startTime,
+        endTime,
+        userBeats,
+        offbeatsMarked: savedRegion.offbeatsMarked,
+        suggested: savedRegion.suggested ?? false,
+        tempo,
+        meter: savedRegion.meter ?? {
+          beatsPerBar: DEFAULT_BEATS_PER_BAR,
+          downbeatTime: startTime,
+        },
+        metricalLevel: savedRegion.metricalLevel ?? MARKED_LEVEL,
+        subdivision: {
+          type: savedRegion.subdivision?.type ?? "none",
+          marks: (savedRegion.subdivision?.marks ?? []).map((time) => ({
+            id: nextSubdivisionMarkId(),
+            time,
+          })),
+        },
+        swingRatio: null,
+        autoBeats: [],
+        extraFields: regionExtraFields(savedRegion),
+      };
+      loadedRegions.push(region);
+    }
+    return loadedRegions;
+  };
+
+  const regionExtraFields = (
+    savedRegion: SaveObject["tempoRegions"][number],
+  ): Record<string, unknown> => unknownFields(savedRegion, KNOWN_REGION_FIELDS);
+
+  /** Top level fields of a save that neither this version nor the app know. */
+  const saveExtraFieldsOf = (save: SaveObject): Record<string, unknown> =>
+    unknownFields(save, KNOWN_SAVE_FIELDS);
+
+  const rebuildUserBeatIndex = () => {
+    userBeatsById.clear();
+    for (const r of regions) {
+      for (const ub of r.userBeats) {
+        userBeatsById.set(ub.id, ub);
+      }
+    }
+  };
+
+  const proposeRegions = (proposal: { markedBeats: number[] }[]): boolean => {
+    if (regions.some((r) => !r.suggested)) {
+      return false;
+    }
+    const proposed = regionsFromSave(
+      proposal.map((p) => ({
+        markedBeats: p.markedBeats,
+        inferredBeats: [],
+        offbeatsMarked: false,
+        suggested: true,
+        tempo: { type: "tapped" },
+      })),
+    );
+    regions.splice(0, regions.length, ...proposed);
+    rebuildUserBeatIndex();
+    reassignRegionIndices();
+    state.selectedRegionId = regions.length > 0 ? regions[0].id : null;
+    onRegionsChanged(regions);
+    return true;
+  };
+
+  const acceptSuggestions = (regionId: number | null) => {
+    const accepted = regions.filter(
+      (r) => r.suggested && (regionId === null || r.id === regionId),
+    );
+    if (accepted.length === 0) {
+      return;
+    }
+    for (const r of accepted) {
+      r.suggested = false;
+    }
+    onRegionsChanged(accepted);
+  };
+
+  const discardSuggestions = () => {
+    if (!regions.some((r) => r.suggested)) {
+      return;
+    }
+    const kept = regions.filter((r) => !r.suggested);
+    for (let i = 0; i < kept.length; i++) {
+      kept[i].endTime = i < kept.length - 1 ? kept[i + 1].startTime : duration;
+    }
+    regions.splice(0, regions.length, ...kept);
+    rebuildUserBeatIndex();
+    reassignRegionIndices();
+    if (!regions.some((r) => r.id === state.selectedRegionId)) {
+      state.selectedRegionId = null;
+    }
+    onRegionsChanged(regions);
+  };
+
+  const loadSave = (save: SaveObject) => {
+    // throws before anything changed if the save does not fit the audio
+    const loaded = regionsFromSave(save.tempoRegions);
+    saveExtraFields = saveExtraFieldsOf(save);
+    saveVersion = Math.max(save.version, SAVE_VERSION);
+    regions.splice(0, regions.length, ...loaded);
+    rebuildUserBeatIndex();
+    reassignRegionIndices();
+    state.selectedRegionId = regions.length > 0 ? regions[0].id : null;
+    onRegionsChanged(regions);
+  };
+
+  if (isNotNullish(opts.loadSaved)) {
+    saveExtraFields = saveExtraFieldsOf(opts.loadSaved);
+    saveVersion = Math.max(opts.loadSaved.version, SAVE_VERSION);
+    regions.push(...regionsFromSave(opts.loadSaved.tempoRegions));
+    rebuildUserBeatIndex();
+    reassignRegionIndices();
+    onRegionsChanged(regions, false);
+  }
+  history.reset(snapshot());
+
+  return {
+    get regions() {
+      return regions;
+    },
+    regionById: (id: number): TempoRegion => {
+      const r = regions.find((r) => r.id === id);
+      assertNotNull(r, "region by id is null");
+      return r;
+    },
+    addPoint,
+    addBeats,
+    deletePoint,
+    deleteBeats,
+    nudgeBeats,
+    quantizeBeats,
+    deleteAll,
+    tryMovePoint,
+    splitRegion,
+    mergeRegions,
+    shiftRegion,
+    moveRegionBoundary,
+    setSnapTargets: (times: number[] | null) => {
+      snapTargets = times;
+    },
+    get snapSettings() {
+      return state.snapSettings;
+    },
+    set snapSettings(s) {
+      state.snapSettings = s;
+    },
+    setViewport,
+    beatsBetween,
+    get revision() {
+      return state.revision;
+    },
+    setRegionFixedTempo,
+    fitFixedTempo,
+    setRegionType,
+    setRegionMeter,
+    setRegionSubdivision,
+    changeMetricalLevel,
+    addSubdivisionMark,
+    deleteSubdivisionMark,
+    subdivisionsBetween,
+    setRegionOffbeatsMarked,
+    setRegionRamp,
+    fitRegionRamp,
+    get canUndo() {
+      return state.canUndo;
+    },
+    get canRedo() {
+      return state.canRedo;
+    },
+    undo,
+    redo,
+    proposeRegions,
+    acceptSuggestions,
+    discardSuggestions,
+    loadSave,
+    save: () => {
+      return saveState();
+    },
+    saveObject,
+    get selectedRegion() {
+      if (state.selectedRegionId !== null) {
+        const r = regions.find((r) => r.id === state.selectedRegionId);
+        assertNotNull(r, "region by id is null");
+        return r;
+      } else {
+        return null;
+      }
+    },
+    get selectedRegionId() {
+      return state.selectedRegionId;
+    },
+    set selectedRegionId(id) {
+      if (id !== null && isNullish(regions.find((r) => r.id === id))) {
+        console.error("set selected region to nonexistent id");
+      } else {
+        state.selectedRegionId = id;
+      }
+    },
+  };
+};
@@ -0,0 +1,286 @@
+import type { OnsetEnvelope } from "./onsets";
+
+export const MIN_TRACKING_BPM = 40;
+export const MAX_TRACKING_BPM = 240;
+// local tempo is estimated on windows of this length, every hop seconds
+const TEMPO_WINDOW = 8;
+const TEMPO_HOP = 2;
+// relative local tempo deviation that counts as a tempo change
+const TEMPO_CHANGE_TOLERANCE = 0.04;
+// tempo regions shorter than this are merged into their neighbour
+const MIN_REGION_LENGTH = 10;
+// how strongly the dynamic programming tracker sticks to the estimated period
+const TIGHTNESS = 100;
+
+export type TrackedRegion = { bpm: number; beats: number[] };
+
+export type BeatTrackingResult = { tempoRegions: TrackedRegion[] };
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0
+    ? (sorted[mid - 1] + sorted[mid]) / 2
+    : sorted[mid];
+}
+
+/**
+ * Tempo induction by autocorrelation of the onset envelope between
+ * `startFrame` and `endFrame`, weighted with a log-normal prior around
+ * `priorBpm` so that the preferred metrical level can be steered.
+ */
+export function estimateTempo(
+  env: OnsetEnvelope,
+  opts: {
+    startFrame?: number;
+    endFrame?: number;
+    priorBpm: number;
+    priorOctaves: number;
+  },
+): number {
+  const start = Math.max(0, opts.startFrame ?? 0);
+  const end = Math.min(env.values.length, opts.endFrame ?? env.values.length);
+  const minLag = Math.floor((60 * env.frameRate) / MAX_TRACKING_BPM);
+  const maxLag = Math.ceil((60 * env.frameRate) / MIN_TRACKING_BPM);
+  let mean = 0;
+  for (let i = start; i < end; i++) {
+    mean += env.values[i];
+  }
+  mean /= Math.max(1, end - start);
+  const ac = new Float64Array(maxLag + 2);
+  for (let lag = minLag - 1; lag <= maxLag + 1; lag++) {
+    let sum = 0;
+    for (let i = start + lag; i < end; i++) {
+      sum += (env.values[i] - mean) * (env.values[i - lag] - mean);
+    }
+    ac[lag] = sum / Math.max(1, end - start - lag);
+  }
+  let bestLag = -1;
+  let bestScore = Number.NEGATIVE_INFINITY;
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    const bpm = (60 * env.frameRate) / lag;
+    const octaves = Math.log2(bpm / opts.priorBpm) / opts.priorOctaves;
+    const score = ac[lag] * Math.exp(-0.5 * octaves * octaves);
+    if (score > bestScore) {
+      bestScore = score;
+      bestLag = lag;
+    }
+  }
+  if (bestLag < 0) {
+    return opts.priorBpm;
+  }
+  // parabolic interpolation around the autocorrelation peak
+  const a = ac[bestLag - 1];
+  const b = ac[bestLag];
+  const c = ac[bestLag + 1];
+  const denom = a - 2 * b + c;
+  const shift = denom !== 0 ? (0.5 * (a - c)) / denom : 0;
+  const lag = bestLag + Math.max(-0.5, Math.min(0.5, shift));
+  return (60 * env.frameRate) / lag;
+}
+
+/**
+ * Dynamic programming beat tracker after Ellis (2007): finds the sequence of
+ * beats between `startFrame` and `endFrame` that maximizes onset strength at
+ * the beats while keeping inter-beat intervals close to the period of `bpm`.
+ * Returns beat times in seconds.
+ */
+export function trackBeats(
+  env: OnsetEnvelope,
+  startFrame: number,
+  endFrame: number,
+  bpm: number,
+): number[] {
+  const start = Math.max(0, Math.floor(startFrame));
+  const end = Math.min(env.values.length, Math.ceil(endFrame));
+  const n = end - start;
+  const period = (60 * env.frameRate) / bpm;
+  if (n < 2 * period) {
+    return [];
+  }
+  const halfWidth = Math.round(period);
+  const kernel = new Float64Array(2 * halfWidth + 1);
+  for (let k = -halfWidth; k <= halfWidth; k++) {
+    kernel[k + halfWidth] = Math.exp(-0.5 * Math.pow((k * 32) / period, 2));
+  }
+  const local = new Float64Array(n);
+  for (let i = 0; i < n; i++) {
+    let sum = 0;
+    for (let k = -halfWidth; k <= halfWidth; k++) {
+      const j = start + i + k;
+      if (j >= start && j < end) {
+        sum += env.values[j] * kernel[k + halfWidth];
+      }
+    }
+    local[i] = sum;
+  }
+
+  const minLag = Math.max(1, Math.round(period / 2));
+  const maxLag = Math.round(2 * period);
+  const cumulative = new Float64Array(n);
+  const backlink = new Int32Array(n).fill(-1);
+  for (let i = 0; i < n; i++) {
+    let best = Number.NEGATIVE_INFINITY;
+    let bestIdx = -1;
+    for (let lag = minLag; lag <= maxLag && i - lag >= 0; lag++) {
+      const deviation = Math.log(lag / period);
+      const score = cumulative[i - lag] - TIGHTNESS * deviation * deviation;
+      if (score > best) {
+        best = score;
+        bestIdx = i - lag;
+      }
+    }
+    cumulative[i] = local[i] + (bestIdx >= 0 ? Math.max(0, best) : 0);
+    backlink[i] = bestIdx >= 0 && best > 0 ? bestIdx : -1;
+  }
+
+  // last beat: the last local maximum of the cumulative score that is not
+  // much weaker than a typical one
+  const maxima: number[] = [];
+  for (let i = 1; i < n - 1; i++) {
+    if (
+      cumulative[i] > cumulative[i - 1] &&
+      cumulative[i] >= cumulative[i + 1]
+    ) {
+      maxima.push(i);
+    }
+  }
+  if (maxima.length === 0) {
+    return [];
+  }
+  const threshold = 0.5 * median(maxima.map((i) => cumulative[i]));
+  let last = maxima[maxima.length - 1];
+  for (let m = maxima.length - 1; m >= 0; m--) {
+    if (cumulative[maxima[m]] >= threshold) {
+      last = maxima[m];
+      break;
+    }
+  }
+  const frames: number[] = [];
+  for (let i = last; i >= 0; i = backlink[i]) {
+    frames.push(i);
+  }
+  frames.reverse();
+
+  // drop weak beats at the edges, typically silence before and after the music
+  let sq = 0;
+  for (const f of frames) {
+    sq += local[f] * local[f];
+  }
+  const trim = 0.5 * Math.sqrt(sq / frames.length);
+  let first = 0;
+  let lastIdx = frames.length - 1;
+  while (first <= lastIdx && local[frames[first]] < trim) {
+    first++;
+  }
+  while (lastIdx >= first && local[frames[lastIdx]] < trim) {
+    lastIdx--;
+  }
+  return frames
+    .slice(first, lastIdx + 1)
+    .map((f) => (start + f) / env.frameRate);
+}
+
+/**
+ * Splits the track into regions of roughly constant tempo and tracks the
+ * beats of each region separately. Local tempo is estimated on overlapping
+ * windows with a narrow prior around the global tempo so that the estimate
+ * stays on one metrical level.
+ */
+export function trackBeatsWithTempoChanges(
+  env: OnsetEnvelope,
+): BeatTrackingResult {
+  const fr = env.frameRate;
+  const frameCount = env.values.length;
+  const globalBpm = estimateTempo(env, { priorBpm: 120, priorOctaves: 1 });
+  const windowFrames = Math.round(TEMPO_WINDOW * fr);
+  const hopFrames = Math.round(TEMPO_HOP * fr);
+
+  const local: { centerFrame: number; bpm: number }[] = [];
+  for (let s = 0; s + windowFrames <= frameCount; s += hopFrames) {
+    local.push({
+      centerFrame: s + windowFrames / 2,
+      bpm: estimateTempo(env, {
+        startFrame: s,
+        endFrame: s + windowFrames,
+        priorBpm: globalBpm,
+        priorOctaves: 0.25,
+      }),
+    });
+  }
+  const smoothed = local.map((w, i) =>
+    median(local.slice(Math.max(0, i - 1), i + 2).map((v) => v.bpm)),
+  );
+
+  let segments: { startFrame: number; endFrame: number; bpms: number[] }[] = [
+    { startFrame: 0, endFrame: frameCount, bpms: [] },
+  ];
+  for (let i = 0; i < smoothed.length; i++) {
+    const seg = segments[segments.length - 1];
+    if (seg.bpms.length > 0) {
+      const current = median(seg.bpms);
+      const deviates = (bpm: number) =>
+        Math.abs(bpm / current - 1) > TEMPO_CHANGE_TOLERANCE;
+      if (
+        deviates(smoothed[i]) &&
+        (i + 1 >= smoothed.length || deviates(smoothed[i + 1]))
+      ) {
+        seg.endFrame = local[i].centerFrame;
+        segments.push({
+          startFrame: local[i].centerFrame,
+          endFrame: frameCount,
+          bpms: [],
+        });
+      }
+    }
+    segments[segments.length - 1].bpms.push(smoothed[i]);
+  }
+  const minFrames = MIN_REGION_LENGTH * fr;
+  segments = segments.reduce(
+    (merged, seg) => {
+      const prev = merged[merged.length - 1];
+      if (
+        prev !== undefined &&
+        (seg.endFrame - seg.startFrame < minFrames ||
+          prev.endFrame - prev.startFrame < minFrames)
+      ) {
+        prev.endFrame = seg.endFrame;
+        prev.bpms.push(...seg.bpms);
+      } else {
+        merged.push(seg);
+      }
+      return merged;
+    },
+    [] as typeof segments,
+  );
+
+  const tempoRegions: TrackedRegion[] = [];
+  for (const seg of segments) {
+    const bpm = estimateTempo(env, {
+      startFrame: seg.startFrame,
+      endFrame: seg.endFrame,
+      priorBpm: seg.bpms.length > 0 ? median(seg.bpms) : globalBpm,
+      priorOctaves: 0.1,
+    });
+    const period = 60 / bpm;
+    const prevRegion = tempoRegions[tempoRegions.length - 1];
+    const lastBeat = prevRegion?.beats[prevRegion.beats.length - 1] ?? null;
+    // let the tracker settle on the context before the region starts
+    const beats = trackBeats(
+      env,
+      seg.startFrame - 2 * period * fr,
+      seg.endFrame,
+      bpm,
+    ).filter(
+      (t) =>
+        t >= seg.startFrame / fr &&
+        (lastBeat === null || t - lastBeat > period / 2),
+    );
+    if (prevRegion !== undefined && beats.length < 2) {
+      prevRegion.beats.push(...beats);
+    } else if (beats.length > 0) {
+      tempoRegions.push({ bpm, beats });
+    }
+  }
+  return { tempoRegions };
+}
@@ -0,0 +1,264 @@
+import { MIN_BEAT_SPACING, type SaveObject } from "./annotate";
+import { allBeats } from "./export";
+import { beatsToSave } from "./import";
+
+/** Beats of different annotators at most this far apart are the same beat. */
+const BEAT_TOLERANCE = 0.07;
+/** Tempo changes at most this far apart are grouped into one disagreement. */
+const TEMPO_CHANGE_WINDOW = 4;
+/** Relative tempo difference within a passage that counts as disagreement. */
+const TEMPO_TOLERANCE = 0.03;
+/** Relative tolerance for tempo ratios that mean another metrical level. */
+const METRICAL_LEVEL_TOLERANCE = 0.06;
+/** Ratios to the slowest tempo of a passage that mean another metrical level. */
+const METRICAL_LEVEL_RATIOS = [2, 3, 4];
+
+export type Annotator = {
+  name: string;
+  /** All beats in ascending order, marked and inferred. */
+  beats: number[];
+  /** Times at which the second and later tempo regions start. */
+  tempoChanges: number[];
+};
+
+/** A beat as marked by each annotator, null where one did not mark it. */
+export type AlignedBeat = {
+  times: (number | null)[];
+  median: number;
+};
+
+export type ConflictKind = "tempo" | "metricalLevel" | "tempoChange";
+
+export type Conflict = {
+  kind: ConflictKind;
+  startTime: number;
+  endTime: number;
+  message: string;
+  /** What each annotator has in the passage, in annotator order. */
+  choices: string[];
+};
+
+export type Consensus = {
+  annotators: Annotator[];
+  beats: AlignedBeat[];
+  /** Tempo changes all annotators agree on. */
+  tempoChanges: number[];
+  conflicts: Conflict[];
+};
+
+/**
+ * Winning annotator of each conflict, in conflict order. Null keeps the
+ * proposal: the median beats, and no tempo change.
+ */
+export type Resolution = (number | null)[];
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0
+    ? (sorted[mid - 1] + sorted[mid]) / 2
+    : sorted[mid];
+}
+
+function formatTime(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${(seconds - 60 * minutes).toFixed(3).padStart(6, "0")}`;
+}
+
+export function annotatorFromSave(name: string, save: SaveObject): Annotator {
+  const beats = allBeats(save);
+  const tempoChanges = beats
+    .filter((b, i) => i > 0 && b.regionIndex !== beats[i - 1].regionIndex)
+    .map((b) => b.time);
+  return { name, beats: beats.map((b) => b.time), tempoChanges };
+}
+
+/**
+ * Groups the times of all annotators so that each group holds at most one
+ * time per annotator, all within `tolerance` of the group's first time.
+ */
+function align(timesByAnnotator: number[][], tolerance: number): AlignedBeat[] {
+  const all = timesByAnnotator
+    .flatMap((times, annotator) => times.map((time) => ({ time, annotator })))
+    .sort((a, b) => a.time - b.time);
+  const groups: AlignedBeat[] = [];
+  let current: (number | null)[] | null = null;
+  let start = 0;
+  const close = () => {
+    if (current !== null) {
+      const times = current.filter((t) => t !== null);
+      groups.push({ times: current, median: median(times) });
+    }
+  };
+  for (const { time, annotator } of all) {
+    if (
+      current === null ||
+      time - start > tolerance ||
+      current[annotator] !== null
+    ) {
+      close();
+      current = timesByAnnotator.map(() => null);
+      start = time;
+    }
+    current[annotator] = time;
+  }
+  close();
+  return groups;
+}
+
+function beatsWithin(beats: number[], startTime: number, endTime: number) {
+  return beats.filter((t) => startTime <= t && t < endTime);
+}
+
+function tempoWithin(
+  beats: number[],
+  startTime: number,
+  endTime: number,
+): number | null {
+  const within = beatsWithin(beats, startTime, endTime);
+  if (within.length < 3) {
+    return null;
+  }
+  return 60 / median(within.slice(1).map((t, i) => t - within[i]));
+}
+
+/**
+ * Aligns the beats of the annotators and proposes the median of every beat
+ * more than half of them marked. Passages between the agreed tempo changes are
+ * compared for their tempo, and tempo changes not all annotators marked are
+ * reported, each as a conflict to resolve.
+ */
+export function buildConsensus(
+  annotators: Annotator[],
+  duration: number,
+): Consensus {
+  const beats = align(
+    annotators.map((a) => a.beats),
+    BEAT_TOLERANCE,
+  );
+  const changes = align(
+    annotators.map((a) => a.tempoChanges),
+    BEAT_TOLERANCE,
+  );
+  const tempoChanges = changes
+    .filter((c) => c.times.every((t) => t !== null))
+    .map((c) => c.median);
+  const conflicts: Conflict[] = [];
+
+  const bounds = [0, ...tempoChanges, duration];
+  for (let i = 0; i + 1 < bounds.length; i++) {
+    const [startTime, endTime] = [bounds[i], bounds[i + 1]];
+    const tempi = annotators.map((a) =>
+      tempoWithin(a.beats, startTime, endTime),
+    );
+    const known = tempi.filter((t) => t !== null);
+    if (known.length < 2) {
+      continue;
+    }
+    // against the slowest rather than the median, which for two annotators
+    // at half and double tempo lies between both levels
+    const slowest = Math.min(...known);
+    const ratios = known.map((t) => t / slowest);
+    const otherLevel = ratios.some((r) =>
+      METRICAL_LEVEL_RATIOS.some(
+        (level) => Math.abs(r / level - 1) <= METRICAL_LEVEL_TOLERANCE,
+      ),
+    );
+    const otherTempo = ratios.some((r) => r - 1 > TEMPO_TOLERANCE);
+    if (!otherLevel && !otherTempo) {
+      continue;
+    }
+    conflicts.push({
+      kind: otherLevel ? "metricalLevel" : "tempo",
+      startTime,
+      endTime,
+      message: otherLevel
+        ? "Beats are marked at different metrical levels"
+        : "Tempi differ",
+      choices: annotators.map(
+        (a, k) =>
+          `${a.name}: ${tempi[k] !== null ? `${tempi[k].toFixed(1)} bpm` : "too few beats"}`,
+      ),
+    });
+  }
+
+  const disputed = changes.filter((c) => c.times.some((t) => t === null));
+  for (let i = 0; i < disputed.length;) {
+    let j = i + 1;
+    while (
+      j < disputed.length &&
+      disputed[j].median - disputed[j - 1].median <= TEMPO_CHANGE_WINDOW
+    ) {
+      j++;
+    }
+    const group = disputed.slice(i, j);
+    conflicts.push({
+      kind: "tempoChange",
+      startTime: group[0].median,
+      endTime: group[group.length - 1].median,
+      message: "Tempo change marked by some annotators only",
+      choices: annotators.map((a, k) => {
+        const times = group.flatMap((c) =>
+          c.times[k] !== null ? [c.times[k]] : [],
+        );
+        return times.length > 0
+          ? `${a.name}: change at ${times.map(formatTime).join(", ")}`
+          : `${a.name}: no change`;
+      }),
+    });
+    i = j;
+  }
+  conflicts.sort((a, b) => a.startTime - b.startTime);
+
+  return { annotators, beats, tempoChanges, conflicts };
+}
+
+/**
+ * The proposed beats, with the beats of the winning annotator in passages
+ * with a tempo or metrical level conflict, split into regions at the agreed
+ * tempo changes and those of tempo change conflict winners.
+ */
+export function mergeConsensus(
+  consensus: Consensus,
+  resolution: Resolution,
+): SaveObject {
+  const { annotators } = consensus;
+  const quorum = annotators.length / 2;
+  let beats = consensus.beats
+    .filter((b) => b.times.filter((t) => t !== null).length > quorum)
+    .map((b) => b.median);
+  const tempoChanges = [...consensus.tempoChanges];
+  for (const [i, conflict] of consensus.conflicts.entries()) {
+    const winner = resolution[i] ?? null;
+    if (winner === null) {
+      continue;
+    }
+    const { startTime, endTime } = conflict;
+    if (conflict.kind === "tempoChange") {
+      tempoChanges.push(
+        ...annotators[winner].tempoChanges.filter(
+          (t) =>
+            startTime - BEAT_TOLERANCE <= t && t <= endTime + BEAT_TOLERANCE,
+        ),
+      );
+    } else {
+      beats = [
+        ...beats.filter((t) => t < startTime || endTime <= t),
+        ...beatsWithin(annotators[winner].beats, startTime, endTime),
+      ];
+    }
+  }
+  beats.sort((a, b) => a - b);
+  // at the edges of won passages beats of different annotators can meet
+  const spaced: number[] = [];
+  for (const t of beats) {
+    if (
+      spaced.length === 0 ||
+      t - spaced[spaced.length - 1] >= MIN_BEAT_SPACING
+    ) {
+      spaced.push(t);
+    }
+  }
+  tempoChanges.sort((a, b) => a - b);
+  return beatsToSave(spaced, tempoChanges);
+}
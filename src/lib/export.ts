@@ -0,0 +1,532 @@
+import type { SaveObject, SaveWithMetadata } from "./annotate";
+import {
+  barPositions,
+  DEFAULT_BEATS_PER_BAR,
+  formatMetricalLevel,
+  formatPosition,
+  MARKED_LEVEL,
+  type BeatPosition,
+  type Meter,
+  type MetricalLevel,
+} from "./meter";
+import { subdivisionLabels } from "./subdivision";
+
+export type ExportFormat =
+  | "json"
+  | "beats"
+  | "beatPositions"
+  | "jams"
+  | "audacity"
+  | "sonicvisualiser"
+  | "midi";
+
+export const exportFormats: {
+  format: ExportFormat;
+  label: string;
+  extension: string;
+  mimeType: string;
+}[] = [
+  {
+    format: "json",
+    label: "Annotation JSON",
+    extension: ".json",
+    mimeType: "application/json",
+  },
+  {
+    format: "beats",
+    label: "Beat list (.beats, MIREX / mir_eval)",
+    extension: ".beats",
+    mimeType: "text/plain",
+  },
+  {
+    format: "beatPositions",
+    label: "Beat list with positions in bar (downbeat = 1)",
+    extension: ".positions.beats",
+    mimeType: "text/plain",
+  },
+  {
+    format: "jams",
+    label: "JAMS",
+    extension: ".jams",
+    mimeType: "application/json",
+  },
+  {
+    format: "audacity",
+    label: "Audacity labels",
+    extension: ".labels.txt",
+    mimeType: "text/plain",
+  },
+  {
+    format: "sonicvisualiser",
+    label: "Sonic Visualiser instants (CSV)",
+    extension: ".csv",
+    mimeType: "text/csv",
+  },
+  {
+    format: "midi",
+    label: "MIDI tempo map",
+    extension: ".mid",
+    mimeType: "audio/midi",
+  },
+];
+
+type SavedRegion = SaveObject["tempoRegions"][number];
+
+export type ExportedBeat = {
+  time: number;
+  regionIndex: number;
+  marked: boolean;
+  position: BeatPosition | null;
+};
+
+const PPQ = 480;
+// largest tempo a MIDI set tempo event can hold, in microseconds per quarter
+const MAX_MIDI_TEMPO = 0xffffff;
+
+function formatTime(t: number): string {
+  return t.toFixed(6);
+}
+
+/**
+ * All beats of a region in ascending order. In fixed tempo regions the
+ * inferred grid is authoritative and the marked beats only served to fit its
+ * phase, the same holds for ramps. In tapped regions marked and inferred beats
+ * interleave. Marked offbeats are never beats themselves, only the inferred
+ * beats are.
+ */
+export function regionBeats(
+  region: SavedRegion,
+  regionIndex: number,
+): ExportedBeat[] {
+  const inferred = region.inferredBeats.map((time) => ({
+    time,
+    regionIndex,
+    marked: false,
+    position: null,
+  }));
+  if (region.tempo.type !== "tapped" || region.offbeatsMarked) {
+    return inferred;
+  }
+  const marked = region.markedBeats.map((time) => ({
+    time,
+    regionIndex,
+    marked: true,
+    position: null,
+  }));
+  return [...marked, ...inferred].sort((a, b) => a.time - b.time);
+}
+
+/** Meter of a region, saves from before meters existed count in 4/4. */
+export function regionMeter(region: SavedRegion): Meter {
+  return (
+    region.meter ?? {
+      beatsPerBar: DEFAULT_BEATS_PER_BAR,
+      downbeatTime: region.markedBeats[0],
+    }
+  );
+}
+
+/** Metrical level of a region, older saves are at the level they marked. */
+export function regionMetricalLevel(region: SavedRegion): MetricalLevel {
+  return region.metricalLevel ?? MARKED_LEVEL;
+}
+
+/** Beats of all regions with bar numbers continuing across regions. */
+export function allBeats(save: SaveObject): ExportedBeat[] {
+  let bar = 1;
+  return save.tempoRegions.flatMap((r, i) => {
+    const beats = regionBeats(r, i);
+    const { positions, nextBar } = barPositions(
+      beats.map((b) => b.time),
+      regionMeter(r),
+      bar,
+    );
+    bar = nextBar;
+    return beats.map((b, k) => ({ ...b, position: positions[k] }));
+  });
+}
+
+/** Inferred subdivision onsets of all regions in ascending order. */
+export function allSubdivisions(
+  save: SaveObject,
+): { time: number; regionIndex: number }[] {
+  return save.tempoRegions.flatMap((r, i) =>
+    (r.subdivisions ?? []).map((time) => ({ time, regionIndex: i })),
+  );
+}
+
+/** Subdivision type and swing ratio of a region, empty without subdivision. */
+function subdivisionText(region: SavedRegion): string {
+  if (region.subdivision === undefined || region.subdivision.type === "none") {
+    return "";
+  }
+  const { type, swingRatio } = region.subdivision;
+  return (
+    ` ${subdivisionLabels[type]}` +
+    (swingRatio !== undefined && swingRatio !== null
+      ? ` swing ${swingRatio.toFixed(2)}`
+      : "")
+  );
+}
+
+/** Tempo of a region in bpm, from the mean inter-beat interval if tapped. */
+export function regionBpm(
+  region: SavedRegion,
+  regionIndex: number,
+): number | null {
+  if (region.tempo.type === "fixed") {
+    return region.tempo.bpm;
+  }
+  const beats = regionBeats(region, regionIndex);
+  if (beats.length < 2) {
+    return null;
+  }
+  const period =
+    (beats[beats.length - 1].time - beats[0].time) / (beats.length - 1);
+  return 60 / period;
+}
+
+function regionBounds(
+  save: SaveWithMetadata,
+): { startTime: number; endTime: number }[] {
+  return save.tempoRegions.map((r, i) => ({
+    startTime: r.markedBeats[0],
+    endTime:
+      i < save.tempoRegions.length - 1
+        ? save.tempoRegions[i + 1].markedBeats[0]
+        : save.duration,
+  }));
+}
+
+export function toBeatsText(save: SaveObject): string {
+  return allBeats(save)
+    .map((b) => formatTime(b.time) + "\n")
+    .join("");
+}
+
+/** `time<TAB>beat in bar` per line, as used for downbeat tracking datasets. */
+export function toBeatPositionsText(save: SaveObject): string {
+  return allBeats(save)
+    .map((b) => `${formatTime(b.time)}\t${b.position?.beat ?? 0}\n`)
+    .join("");
+}
+
+export function toJams(save: SaveWithMetadata): string {
+  const bounds = regionBounds(save);
+  const subdivisions = allSubdivisions(save);
+  const annotationMetadata = {
+    curator: { name: "", email: "" },
+    annotator: {},
+    version: "",
+    corpus: "",
+    annotation_tools: "music-tempo-annotation",
+    annotation_rules: "",
+    validation: "",
+    data_source: "manual annotation",
+  };
+  const jams = {
+    file_metadata: {
+      title: save.fileName,
+      artist: "",
+      release: "",
+      duration: save.duration,
+      identifiers: {},
+      jams_version: "0.3.4",
+    },
+    annotations: [
+      {
+        namespace: "beat",
+        time: 0,
+        duration: save.duration,
+        annotation_metadata: annotationMetadata,
+        data: allBeats(save).map((b) => ({
+          time: b.time,
+          duration: 0,
+          value: b.position?.beat ?? null,
+          confidence: b.marked ? 1 : null,
+        })),
+        // pulse of the beats relative to the one they were marked at
+        sandbox: {
+          metrical_levels: save.tempoRegions.map((r, i) => ({
+            time: bounds[i].startTime,
+            level: formatMetricalLevel(regionMetricalLevel(r)),
+          })),
+        },
+      },
+      {
+        namespace: "segment_open",
+        time: 0,
+        duration: save.duration,
+        annotation_metadata: annotationMetadata,
+        data: save.tempoRegions.map((r, i) => ({
+          time: bounds[i].startTime,
+          duration: bounds[i].endTime - bounds[i].startTime,
+          // the beat's note value is not annotated
+          value: `${regionMeter(r).beatsPerBar} beats per bar`,
+          confidence: 1,
+        })),
+        sandbox: {},
+      },
+      {
+        namespace: "tempo",
+        time: 0,
+        duration: save.duration,
+        annotation_metadata: annotationMetadata,
+        data: save.tempoRegions.flatMap((r, i) => {
+          if (r.tempo.type === "ramp") {
+            // a ramp has no single tempo, one observation per beat
+            const beats = regionBeats(r, i);
+            return beats.slice(1).map((b, k) => ({
+              time: beats[k].time,
+              duration: b.time - beats[k].time,
+              value: 60 / (b.time - beats[k].time),
+              confidence: 1,
+            }));
+          }
+          const bpm = regionBpm(r, i);
+          return bpm === null
+            ? []
+            : [
+                {
+                  time: bounds[i].startTime,
+                  duration: bounds[i].endTime - bounds[i].startTime,
+                  value: bpm,
+                  confidence: 1,
+                },
+              ];
+        }),
+        sandbox: {},
+      },
+      ...(subdivisions.length > 0
+        ? [
+            {
+              namespace: "onset",
+              time: 0,
+              duration: save.duration,
+              annotation_metadata: annotationMetadata,
+              data: subdivisions.map((s) => ({
+                time: s.time,
+                duration: 0,
+                value: null,
+                confidence: null,
+              })),
+              // JAMS has no namespace for subdivisions or swing
+              sandbox: {
+                subdivisions: save.tempoRegions.map((r, i) => ({
+                  time: bounds[i].startTime,
+                  type: r.subdivision?.type ?? "none",
+                  swingRatio: r.subdivision?.swingRatio ?? null,
+                })),
+              },
+            },
+          ]
+        : []),
+    ],
+    sandbox: {},
+  };
+  return JSON.stringify(jams, null, 2);
+}
+
+/**
+ * Audacity label track: one range label per tempo region followed by one
+ * point label per beat and subdivision, tab separated as `start end label`.
+ */
+export function toAudacityLabels(save: SaveWithMetadata): string {
+  const bounds = regionBounds(save);
+  const lines: string[] = [];
+  for (const [i, r] of save.tempoRegions.entries()) {
+    const bpm = regionBpm(r, i);
+    const tempoText =
+      r.tempo.type === "ramp"
+        ? ` ${r.tempo.startBpm.toFixed(2)}-${r.tempo.endBpm.toFixed(2)} bpm ${r.tempo.curve}`
+        : bpm !== null
+          ? ` ${bpm.toFixed(2)} bpm`
+          : "";
+    const label =
+      `region ${i + 1} ${r.tempo.type} ${regionMeter(r).beatsPerBar} beats per bar` +
+      tempoText +
+      subdivisionText(r) +
+      ` level ${formatMetricalLevel(regionMetricalLevel(r))}`;
+    lines.push(
+      [
+        formatTime(bounds[i].startTime),
+        formatTime(bounds[i].endTime),
+        label,
+      ].join("\t"),
+    );
+  }
+  for (const b of allBeats(save)) {
+    const t = formatTime(b.time);
+    const kind = b.marked ? "marked" : "inferred";
+    const label =
+      b.position !== null ? `${kind} ${formatPosition(b.position)}` : kind;
+    lines.push([t, t, label].join("\t"));
+  }
+  for (const s of allSubdivisions(save)) {
+    const t = formatTime(s.time);
+    lines.push([t, t, "subdivision"].join("\t"));
+  }
+  return lines.map((l) => l + "\n").join("");
+}
+
+/** Time instants layer for Sonic Visualiser, `time,label` per line. */
+export function toSonicVisualiserCsv(save: SaveObject): string {
+  const beats = allBeats(save).map((b) => ({
+    time: b.time,
+    label:
+      `${b.marked ? "marked" : "inferred"} r${b.regionIndex + 1}` +
+      (b.position !== null ? ` ${formatPosition(b.position)}` : ""),
+  }));
+  const subdivisions = allSubdivisions(save).map((s) => ({
+    time: s.time,
+    label: `subdivision r${s.regionIndex + 1}`,
+  }));
+  return [...beats, ...subdivisions]
+    .sort((a, b) => a.time - b.time)
+    .map((i) => `${formatTime(i.time)},${i.label}\n`)
+    .join("");
+}
+
+function variableLength(value: number): number[] {
+  const bytes = [value & 0x7f];
+  value >>>= 7;
+  while (value > 0) {
+    bytes.unshift((value & 0x7f) | 0x80);
+    value >>>= 7;
+  }
+  return bytes;
+}
+
+function uint32(value: number): number[] {
+  return [
+    (value >>> 24) & 0xff,
+    (value >>> 16) & 0xff,
+    (value >>> 8) & 0xff,
+    value & 0xff,
+  ];
+}
+
+/**
+ * Standard MIDI File (format 0) whose quarter notes land on the annotated
+ * beats: every inter-beat interval becomes a set tempo event. The time before
+ * the first beat is covered by as many lead-in quarters as the 24 bit tempo
+ * field requires. Region starts are written as marker events.
+ */
+export function toMidiTempoMap(save: SaveObject): Uint8Array {
+  const beats = allBeats(save);
+  const events: { tick: number; bytes: number[] }[] = [];
+  const setTempo = (tick: number, seconds: number) => {
+    const usPerQuarter = Math.max(
+      1,
+      Math.min(MAX_MIDI_TEMPO, Math.round(seconds * 1e6)),
+    );
+    events.push({
+      tick,
+      bytes: [
+        0xff,
+        0x51,
+        0x03,
+        (usPerQuarter >>> 16) & 0xff,
+        (usPerQuarter >>> 8) & 0xff,
+        usPerQuarter & 0xff,
+      ],
+    });
+  };
+  const marker = (tick: number, text: string) => {
+    const encoded = Array.from(new TextEncoder().encode(text));
+    events.push({
+      tick,
+      bytes: [0xff, 0x06, ...variableLength(encoded.length), ...encoded],
+    });
+  };
+  // n/4, 24 MIDI clocks per metronome click, 8 32nds per quarter
+  const timeSignature = (tick: number, beatsPerBar: number) => {
+    events.push({
+      tick,
+      bytes: [0xff, 0x58, 0x04, Math.min(255, beatsPerBar), 2, 24, 8],
+    });
+  };
+  timeSignature(
+    0,
+    save.tempoRegions.length > 0
+      ? regionMeter(save.tempoRegions[0]).beatsPerBar
+      : DEFAULT_BEATS_PER_BAR,
+  );
+  let quarter = 0;
+  if (beats.length > 0 && beats[0].time > 0) {
+    const leadIn = Math.ceil((beats[0].time * 1e6) / MAX_MIDI_TEMPO);
+    for (let i = 0; i < leadIn; i++) {
+      setTempo(quarter * PPQ, beats[0].time / leadIn);
+      quarter += 1;
+    }
+  }
+  for (let i = 0; i < beats.length; i++) {
+    const tick = quarter * PPQ;
+    if (i === 0 || beats[i].regionIndex !== beats[i - 1].regionIndex) {
+      const level = regionMetricalLevel(
+        save.tempoRegions[beats[i].regionIndex],
+      );
+      marker(
+        tick,
+        `Tempo region ${beats[i].regionIndex + 1} level ${formatMetricalLevel(level)}`,
+      );
+      if (i > 0) {
+        timeSignature(
+          tick,
+          regionMeter(save.tempoRegions[beats[i].regionIndex]).beatsPerBar,
+        );
+      }
+    }
+    if (i < beats.length - 1) {
+      setTempo(tick, beats[i + 1].time - beats[i].time);
+    }
+    quarter += 1;
+  }
+  const track: number[] = [];
+  let lastTick = 0;
+  for (const e of events.sort((a, b) => a.tick - b.tick)) {
+    track.push(...variableLength(e.tick - lastTick), ...e.bytes);
+    lastTick = e.tick;
+  }
+  // end of track on the last beat so that readers see it as a quarter note
+  const endTick = Math.max(lastTick, (quarter - 1) * PPQ);
+  track.push(...variableLength(endTick - lastTick), 0xff, 0x2f, 0x00);
+  const header = [
+    ...Array.from(new TextEncoder().encode("MThd")),
+    ...uint32(6),
+    0x00,
+    0x00, // format 0
+    0x00,
+    0x01, // one track
+    (PPQ >>> 8) & 0xff,
+    PPQ & 0xff,
+  ];
+  return new Uint8Array([
+    ...header,
+    ...Array.from(new TextEncoder().encode("MTrk")),
+    ...uint32(track.length),
+    ...track,
+  ]);
+}
+
+export function exportAnnotations(
+  save: SaveWithMetadata,
+  format: ExportFormat,
+): string | Uint8Array {
+  switch (format) {
+    case "json":
+      return JSON.stringify(save);
+    case "beats":
+      return toBeatsText(save);
+    case "beatPositions":
+      return toBeatPositionsText(save);
+    case "jams":
+      return toJams(save);
+    case "audacity":
+      return toAudacityLabels(save);
+    case "sonicvisualiser":
+      return toSonicVisualiserCsv(save);
+    case "midi":
+      return toMidiTempoMap(save);
+  }
+}
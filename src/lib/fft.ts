@@ -0,0 +1,62 @@
+export type IFFT = {
+  readonly size: number;
+  /** Magnitude spectrum of a real frame, `size / 2 + 1` bins. */
+  magnitudes: (frame: Float32Array, out: Float32Array) => void;
+};
+
+/**
+ * Iterative radix-2 FFT for a fixed power of two size. Twiddle factors and
+ * the bit reversal permutation are computed once, scratch buffers are reused
+ * between calls so analysing a whole track does not allocate per frame.
+ */
+export const FFT = (size: number): IFFT => {
+  if (size < 2 || (size & (size - 1)) !== 0) {
+    throw new Error("FFT size must be a power of two: " + size);
+  }
+  const levels = Math.log2(size);
+  const reversed = new Uint32Array(size);
+  for (let i = 0; i < size; i++) {
+    let r = 0;
+    for (let bit = 0; bit < levels; bit++) {
+      r = (r << 1) | ((i >>> bit) & 1);
+    }
+    reversed[i] = r;
+  }
+  const cos = new Float64Array(size / 2);
+  const sin = new Float64Array(size / 2);
+  for (let i = 0; i < size / 2; i++) {
+    cos[i] = Math.cos((2 * Math.PI * i) / size);
+    sin[i] = Math.sin((2 * Math.PI * i) / size);
+  }
+  const re = new Float64Array(size);
+  const im = new Float64Array(size);
+
+  const magnitudes = (frame: Float32Array, out: Float32Array) => {
+    for (let i = 0; i < size; i++) {
+      re[reversed[i]] = i < frame.length ? frame[i] : 0;
+      im[reversed[i]] = 0;
+    }
+    for (let half = 1; half < size; half *= 2) {
+      const step = size / (half * 2);
+      for (let start = 0; start < size; start += half * 2) {
+        for (let k = 0; k < half; k++) {
+          const a = start + k;
+          const b = a + half;
+          const wr = cos[k * step];
+          const wi = -sin[k * step];
+          const tr = re[b] * wr - im[b] * wi;
+          const ti = re[b] * wi + im[b] * wr;
+          re[b] = re[a] - tr;
+          im[b] = im[a] - ti;
+          re[a] += tr;
+          im[a] += ti;
+        }
+      }
+    }
+    for (let i = 0; i <= size / 2; i++) {
+      out[i] = Math.hypot(re[i], im[i]);
+    }
+  };
+
+  return { size, magnitudes };
+};
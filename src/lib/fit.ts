@@ -0,0 +1,121 @@
+/**
+ * Result of regressing beat times on beat indices, `time = phase + index *
+ * period`.
+ */
+export type GridFit = {
+  period: number;
+  /** Fitted time of the beat with index 0, the first given beat. */
+  phase: number;
+  /** Beat index of each given beat, skipped beats leave gaps. */
+  indices: number[];
+  /** Given minus fitted time of each beat in seconds. */
+  residuals: number[];
+  /** 95% confidence interval of the tempo in bpm, null below three beats. */
+  bpmInterval: [number, number] | null;
+};
+
+// two-sided 97.5% quantiles of Student's t distribution for 1 to 30 degrees
+// of freedom, beyond that the normal quantile is close enough
+const T_QUANTILES = [
+  12.706, 4.303, 3.182, 2.776, 2.571, 2.447, 2.365, 2.306, 2.262, 2.228, 2.201,
+  2.179, 2.16, 2.145, 2.131, 2.12, 2.11, 2.101, 2.093, 2.086, 2.08, 2.074,
+  2.069, 2.064, 2.06, 2.056, 2.052, 2.048, 2.045, 2.042,
+];
+
+function tQuantile(degreesOfFreedom: number): number {
+  return degreesOfFreedom <= T_QUANTILES.length
+    ? T_QUANTILES[degreesOfFreedom - 1]
+    : 1.96;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1
+    ? sorted[mid]
+    : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+/**
+ * Beat indices of ascending `times` for a grid with roughly the given
+ * period, an interval of about two periods counts as a skipped beat.
+ */
+export function beatIndices(times: number[], period: number): number[] {
+  const indices = [0];
+  for (let i = 1; i < times.length; i++) {
+    const n = Math.max(1, Math.round((times[i] - times[i - 1]) / period));
+    indices.push(indices[i - 1] + n);
+  }
+  return indices;
+}
+
+function regress(
+  times: number[],
+  indices: number[],
+): { period: number; phase: number } {
+  const n = times.length;
+  const meanIndex = indices.reduce((a, b) => a + b, 0) / n;
+  const meanTime = times.reduce((a, b) => a + b, 0) / n;
+  let sxy = 0;
+  let sxx = 0;
+  for (let i = 0; i < n; i++) {
+    sxy += (indices[i] - meanIndex) * (times[i] - meanTime);
+    sxx += (indices[i] - meanIndex) * (indices[i] - meanIndex);
+  }
+  const period = sxy / sxx;
+  return { period, phase: meanTime - period * meanIndex };
+}
+
+/**
+ * Least squares beat grid through ascending beat `times`. The indices start
+ * from the shortest typical interval and are recounted once with the fitted
+ * period, which settles skipped beats.
+ */
+export function fitBeatGrid(times: number[]): GridFit | null {
+  if (times.length < 2) {
+    return null;
+  }
+  const intervals = times.slice(1).map((t, i) => t - times[i]);
+  const shortest = Math.min(...intervals);
+  // intervals within 20% of the shortest are single beats
+  const reference = median(intervals.filter((d) => d < shortest * 1.2));
+  let indices = beatIndices(times, reference);
+  let { period, phase } = regress(times, indices);
+  indices = beatIndices(times, period);
+  ({ period, phase } = regress(times, indices));
+  const residuals = times.map((t, i) => t - (phase + indices[i] * period));
+  const bpmInterval = (() => {
+    const dof = times.length - 2;
+    if (dof < 1) {
+      return null;
+    }
+    const meanIndex = indices.reduce((a, b) => a + b, 0) / indices.length;
+    const sxx = indices.reduce((a, k) => a + (k - meanIndex) ** 2, 0);
+    const variance = residuals.reduce((a, r) => a + r * r, 0) / dof;
+    const halfWidth = tQuantile(dof) * Math.sqrt(variance / sxx);
+    const slowest = 60 / (period + halfWidth);
+    const fastest = period - halfWidth > 0 ? 60 / (period - halfWidth) : null;
+    return [slowest, fastest ?? Number.POSITIVE_INFINITY] as [number, number];
+  })();
+  return { period, phase, indices, residuals, bpmInterval };
+}
+
+/**
+ * Least squares phase of a grid with a known period: the offset from
+ * `origin` of the grid beat nearest to it, and the residual of every beat.
+ */
+export function fitPhase(
+  times: number[],
+  period: number,
+  origin: number,
+): { offset: number; residuals: number[] } {
+  if (times.length === 0) {
+    return { offset: 0, residuals: [] };
+  }
+  const errors = times.map((t) => {
+    const k = Math.round((t - origin) / period);
+    return t - origin - k * period;
+  });
+  const offset = errors.reduce((a, b) => a + b, 0) / errors.length;
+  return { offset, residuals: errors.map((e) => e - offset) };
+}
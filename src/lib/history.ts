@@ -0,0 +1,62 @@
+export type IUndoHistory<T> = {
+  readonly canUndo: boolean;
+  readonly canRedo: boolean;
+  reset: (entry: T) => void;
+  push: (entry: T) => void;
+  undo: () => T | null;
+  redo: () => T | null;
+};
+
+/**
+ * Linear undo stack of full state snapshots. The entry at the current
+ * position is always the state that is currently applied, so undo returns the
+ * entry before it and redo the one after. Pushing discards any redo entries.
+ */
+export const UndoHistory = <T>(opts: { limit: number }): IUndoHistory<T> => {
+  const entries: T[] = [];
+  let position = -1;
+
+  const reset = (entry: T) => {
+    entries.splice(0, entries.length, entry);
+    position = 0;
+  };
+
+  const push = (entry: T) => {
+    entries.splice(position + 1, entries.length - position - 1, entry);
+    position = entries.length - 1;
+    if (entries.length > opts.limit) {
+      const drop = entries.length - opts.limit;
+      entries.splice(0, drop);
+      position -= drop;
+    }
+  };
+
+  const undo = (): T | null => {
+    if (position <= 0) {
+      return null;
+    }
+    position -= 1;
+    return entries[position];
+  };
+
+  const redo = (): T | null => {
+    if (position >= entries.length - 1) {
+      return null;
+    }
+    position += 1;
+    return entries[position];
+  };
+
+  return {
+    get canUndo() {
+      return position > 0;
+    },
+    get canRedo() {
+      return position < entries.length - 1;
+    },
+    reset,
+    push,
+    undo,
+    redo,
+  };
+};
@@ -0,0 +1,449 @@
+import typia from "typia";
+import { offsetSave, type SaveObject } from "./annotate";
+import { readSave, SAVE_VERSION } from "./save";
+
+export type ImportResult =
+  | { success: true; data: SaveObject; warnings: string[] }
+  | { success: false; errors: string[] };
+
+export const importAccept = ".json,.jams,.beats,.txt,.csv,.lab,.tsv,.mid,.midi";
+
+// relative deviation of an inter-beat interval from the running tempo that
+// starts a new region when it persists for two intervals
+const TEMPO_CHANGE_TOLERANCE = 0.08;
+// intervals used for the running tempo reference
+const TEMPO_REFERENCE_BEATS = 8;
+const MIN_REGION_BEATS = 4;
+// regions whose intervals all lie within this relative deviation of the mean
+// are imported with a fixed tempo
+const FIXED_TEMPO_TOLERANCE = 0.005;
+// more quarters than any track has beats, guards against tempo maps that
+// never reach the end of the audio
+const MAX_MIDI_BEATS = 100000;
+
+type SavedRegion = SaveObject["tempoRegions"][number];
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0
+    ? (sorted[mid - 1] + sorted[mid]) / 2
+    : sorted[mid];
+}
+
+function extension(fileName: string): string {
+  const dot = fileName.lastIndexOf(".");
+  return dot >= 0 ? fileName.slice(dot).toLowerCase() : "";
+}
+
+/** Whether the file name has one of the extensions in `importAccept`. */
+export function isImportFile(fileName: string): boolean {
+  return importAccept.split(",").includes(extension(fileName));
+}
+
+function regionFromBeats(beats: number[]): SavedRegion {
+  const intervals = beats.slice(1).map((t, i) => t - beats[i]);
+  if (intervals.length >= MIN_REGION_BEATS - 1) {
+    const mean = intervals.reduce((a, b) => a + b, 0) / intervals.length;
+    if (
+      intervals.every((d) => Math.abs(d / mean - 1) <= FIXED_TEMPO_TOLERANCE)
+    ) {
+      return {
+        tempo: { type: "fixed", bpm: Math.round((60 / mean) * 100) / 100 },
+        offbeatsMarked: false,
+        markedBeats: beats,
+        inferredBeats: [],
+      };
+    }
+  }
+  return {
+    tempo: { type: "tapped" },
+    offbeatsMarked: false,
+    markedBeats: beats,
+    inferredBeats: [],
+  };
+}
+
+/**
+ * Indices of beats that start a new tempo region: a beat after which the
+ * inter-beat interval moves away from the running median and stays away.
+ */
+export function detectTempoChanges(beats: number[]): number[] {
+  const starts = [0];
+  let regionStart = 0;
+  for (let i = 1; i + 1 < beats.length; i++) {
+    if (i - regionStart < MIN_REGION_BEATS - 1) {
+      continue;
+    }
+    const intervals: number[] = [];
+    for (
+      let k = Math.max(regionStart, i - TEMPO_REFERENCE_BEATS) + 1;
+      k <= i;
+      k++
+    ) {
+      intervals.push(beats[k] - beats[k - 1]);
+    }
+    const reference = median(intervals);
+    const deviates = (j: number) =>
+      j + 1 < beats.length &&
+      Math.abs((beats[j + 1] - beats[j]) / reference - 1) >
+        TEMPO_CHANGE_TOLERANCE;
+    // an interval twice or half as long is a missing or extra beat, not a
+    // tempo change
+    const ratio = (beats[i + 1] - beats[i]) / reference;
+    const octave = Math.abs(ratio - 2) < 0.1 || Math.abs(ratio - 0.5) < 0.05;
+    if (!octave && deviates(i) && deviates(i + 1)) {
+      starts.push(i);
+      regionStart = i;
+    }
+  }
+  return starts;
+}
+
+/** Splits a beat list at the given region starts, or at detected changes. */
+export function beatsToSave(
+  beats: number[],
+  regionStartTimes: number[] | null = null,
+): SaveObject {
+  const starts =
+    regionStartTimes !== null
+      ? regionStartTimes
+          .map((t) => beats.findIndex((b) => b >= t))
+          .filter((i, k, arr) => i >= 0 && arr.indexOf(i) === k)
+      : detectTempoChanges(beats);
+  if (starts.length === 0 || starts[0] !== 0) {
+    starts.unshift(0);
+  }
+  return {
+    version: SAVE_VERSION,
+    tempoRegions: starts.map((start, k) =>
+      regionFromBeats(
+        beats.slice(
+          start,
+          k + 1 < starts.length ? starts[k + 1] : beats.length,
+        ),
+      ),
+    ),
+  };
+}
+
+/**
+ * Beat list text: one beat per line with the time in seconds in the first
+ * column, further columns such as beat positions are ignored. Columns may be
+ * separated by whitespace or commas, `#` starts a comment.
+ */
+export function parseBeatList(text: string): {
+  beats: number[];
+  errors: string[];
+} {
+  const beats: number[] = [];
+  const errors: string[] = [];
+  for (const [lineIdx, rawLine] of text.split(/\r?\n/).entries()) {
+    const line = rawLine.replace(/#.*$/, "").trim();
+    if (line === "") {
+      continue;
+    }
+    const first = line.split(/[\s,;]+/)[0];
+    const t = Number(first);
+    if (!Number.isFinite(t)) {
+      // allow a header line
+      if (beats.length === 0 && errors.length === 0 && lineIdx === 0) {
+        continue;
+      }
+      errors.push(`line ${lineIdx + 1}: "${first}" is not a time in seconds`);
+    } else {
+      beats.push(t);
+    }
+  }
+  return { beats, errors };
+}
+
+export function parseJams(json: unknown): {
+  beats: number[];
+  errors: string[];
+} {
+  if (
+    !typia.is<{
+      annotations: {
+        namespace: string;
+        data: { time: number }[];
+      }[];
+    }>(json)
+  ) {
+    return {
+      beats: [],
+      errors: ["not a JAMS file: missing or malformed annotations"],
+    };
+  }
+  const beatAnnotation = json.annotations.find(
+    (a) => a.namespace === "beat" || a.namespace === "beat_position",
+  );
+  if (beatAnnotation === undefined) {
+    return {
+      beats: [],
+      errors: ["JAMS file contains no beat annotation"],
+    };
+  }
+  return { beats: beatAnnotation.data.map((d) => d.time), errors: [] };
+}
+
+export type MidiTempoMap = {
+  beats: number[];
+  /** Times of marker events, used as region starts if present. */
+  markers: { time: number; text: string }[];
+};
+
+/**
+ * Reads the quarter note positions of a Standard MIDI File as beats. Tempo
+ * events from all tracks are merged; beats run up to the last event, or up to
+ * `duration` if the file contains nothing but a constant tempo.
+ */
+export function parseMidiTempoMap(
+  bytes: Uint8Array,
+  duration: number,
+): MidiTempoMap {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const ascii = (at: number) =>
+    String.fromCharCode(...bytes.subarray(at, at + 4));
+  if (bytes.length < 14 || ascii(0) !== "MThd") {
+    throw new Error("not a MIDI file");
+  }
+  const headerLength = view.getUint32(4);
+  const trackCount = view.getUint16(10);
+  const division = view.getUint16(12);
+  if (division & 0x8000) {
+    throw new Error("SMPTE time division is not supported");
+  }
+  if (division === 0) {
+    throw new Error("time division of 0 ticks per quarter note");
+  }
+  let pos = 8 + headerLength;
+  const tempoEvents: { tick: number; usPerQuarter: number }[] = [];
+  const markerEvents: { tick: number; text: string }[] = [];
+  let lastTick = 0;
+  for (let track = 0; track < trackCount && pos + 8 <= bytes.length; track++) {
+    if (ascii(pos) !== "MTrk") {
+      throw new Error(`malformed track chunk ${track + 1}`);
+    }
+    const end = pos + 8 + view.getUint32(pos + 4);
+    pos += 8;
+    let tick = 0;
+    let runningStatus = 0;
+    const readVarLen = () => {
+      let value = 0;
+      let b;
+      do {
+        b = bytes[pos++];
+        value = (value << 7) | (b & 0x7f);
+      } while (b & 0x80 && pos < end);
+      return value;
+    };
+    while (pos < end) {
+      tick += readVarLen();
+      let status = bytes[pos];
+      if (status & 0x80) {
+        pos++;
+      } else {
+        status = runningStatus;
+      }
+      if (status === 0xff) {
+        const type = bytes[pos++];
+        const length = readVarLen();
+        if (type === 0x51 && length === 3) {
+          const usPerQuarter =
+            (bytes[pos] << 16) | (bytes[pos + 1] << 8) | bytes[pos + 2];
+          if (usPerQuarter === 0) {
+            throw new Error(
+              `tempo of 0 µs per quarter note in track ${track + 1}`,
+            );
+          }
+          tempoEvents.push({ tick, usPerQuarter });
+        } else if (type === 0x06) {
+          markerEvents.push({
+            tick,
+            text: new TextDecoder().decode(bytes.subarray(pos, pos + length)),
+          });
+        }
+        pos += length;
+      } else if (status === 0xf0 || status === 0xf7) {
+        pos += readVarLen();
+      } else {
+        runningStatus = status;
+        const kind = status & 0xf0;
+        pos += kind === 0xc0 || kind === 0xd0 ? 1 : 2;
+      }
+    }
+    lastTick = Math.max(lastTick, tick);
+    pos = end;
+  }
+  tempoEvents.sort((a, b) => a.tick - b.tick);
+  const timeAt = (tick: number): number => {
+    let time = 0;
+    let prevTick = 0;
+    let usPerQuarter = 500000;
+    for (const e of tempoEvents) {
+      if (e.tick >= tick) {
+        break;
+      }
+      time += ((e.tick - prevTick) / division) * (usPerQuarter / 1e6);
+      prevTick = e.tick;
+      usPerQuarter = e.usPerQuarter;
+    }
+    return time + ((tick - prevTick) / division) * (usPerQuarter / 1e6);
+  };
+  const beats: number[] = [];
+  const onlyTempo = tempoEvents.length <= 1 && markerEvents.length === 0;
+  for (let q = 0; q < MAX_MIDI_BEATS; q++) {
+    const tick = q * division;
+    const t = timeAt(tick);
+    if (
+      !Number.isFinite(t) ||
+      t > duration ||
+      (!onlyTempo && tick > lastTick)
+    ) {
+      break;
+    }
+    beats.push(t);
+  }
+  return {
+    beats,
+    markers: markerEvents.map((m) => ({ time: timeAt(m.tick), text: m.text })),
+  };
+}
+
+function validateBeats(
+  beats: number[],
+  duration: number,
+  warnings: string[],
+): { beats: number[]; errors: string[] } {
+  const errors: string[] = [];
+  const inRange = beats.filter((t) => 0 <= t && t <= duration);
+  if (inRange.length < beats.length) {
+    warnings.push(
+      `${beats.length - inRange.length} beats outside of the audio (0 - ${duration.toFixed(2)} s) were dropped`,
+    );
+  }
+  const sorted = [...inRange].sort((a, b) => a - b);
+  if (sorted.some((t, i) => t !== inRange[i])) {
+    warnings.push("beats were not in ascending order and have been sorted");
+  }
+  const deduplicated = sorted.filter((t, i) => i === 0 || t > sorted[i - 1]);
+  if (deduplicated.length < sorted.length) {
+    warnings.push(
+      `${sorted.length - deduplicated.length} duplicate beats were dropped`,
+    );
+  }
+  if (deduplicated.length === 0) {
+    errors.push("file contains no beats");
+  }
+  return { beats: deduplicated, errors };
+}
+
+function importOwnJson(json: unknown, duration: number): ImportResult {
+  const result = readSave(json);
+  if (!result.success) {
+    return result;
+  }
+  const warnings = [...result.warnings];
+  if (
+    typia.is<{ duration: number }>(json) &&
+    Math.abs(json.duration - duration) > 0.01
+  ) {
+    warnings.push(
+      `annotations were made for audio of ${json.duration.toFixed(2)} s, this one is ${duration.toFixed(2)} s`,
+    );
+  }
+  // regions can not extend past the audio
+  const clipped = offsetSave(result.save, 0, duration);
+  const markedCount = (save: SaveObject) =>
+    save.tempoRegions.reduce((n, r) => n + r.markedBeats.length, 0);
+  const dropped = markedCount(result.save) - markedCount(clipped);
+  if (dropped > 0) {
+    warnings.push(
+      `${dropped} marked beats outside of the audio (0 - ${duration.toFixed(2)} s) were dropped`,
+    );
+  }
+  if (clipped.tempoRegions.length === 0) {
+    return { success: false, errors: ["file contains no beats"] };
+  }
+  return {
+    success: true,
+    data: clipped,
+    warnings,
+  };
+}
+
+/**
+ * Turns an external annotation file into tempo regions. The format is picked
+ * by file extension: our own JSON downloads, JAMS, MIDI tempo maps, and plain
+ * beat lists for anything else.
+ */
+export function importAnnotations(
+  fileName: string,
+  data: ArrayBuffer,
+  duration: number,
+): ImportResult {
+  const ext = extension(fileName);
+  const warnings: string[] = [];
+  let beats: number[];
+  let regionStarts: number[] | null = null;
+  try {
+    if (ext === ".mid" || ext === ".midi") {
+      const map = parseMidiTempoMap(new Uint8Array(data), duration);
+      beats = map.beats;
+      if (map.markers.length > 0) {
+        const firstMarker = map.markers[0].time;
+        regionStarts = map.markers.map((m) => m.time);
+        // quarters before the first marker are lead-in, not beats
+        beats = beats.filter((t) => t >= firstMarker - 1e-6);
+      }
+    } else {
+      const text = new TextDecoder().decode(data);
+      if (ext === ".json" || ext === ".jams") {
+        let json: unknown;
+        try {
+          json = JSON.parse(text);
+        } catch (err) {
+          return {
+            success: false,
+            errors: [
+              "invalid JSON: " +
+                (err instanceof Error ? err.message : String(err)),
+            ],
+          };
+        }
+        const isJams =
+          ext === ".jams" ||
+          (typeof json === "object" && json !== null && "annotations" in json);
+        if (!isJams) {
+          return importOwnJson(json, duration);
+        }
+        const parsed = parseJams(json);
+        if (parsed.errors.length > 0) {
+          return { success: false, errors: parsed.errors };
+        }
+        beats = parsed.beats;
+      } else {
+        const parsed = parseBeatList(text);
+        if (parsed.errors.length > 0) {
+          return { success: false, errors: parsed.errors };
+        }
+        beats = parsed.beats;
+      }
+    }
+  } catch (err) {
+    return {
+      success: false,
+      errors: [err instanceof Error ? err.message : String(err)],
+    };
+  }
+  const validated = validateBeats(beats, duration, warnings);
+  if (validated.errors.length > 0) {
+    return { success: false, errors: validated.errors };
+  }
+  return {
+    success: true,
+    data: beatsToSave(validated.beats, regionStarts),
+    warnings,
+  };
+}
@@ -0,0 +1,137 @@
+import typia from "typia";
+import { makeClickBuffer } from "./metronome";
+
+/**
+ * How late taps land after the beat they follow, measured against the audio
+ * clock, so it covers audio output, input handling and the user's reaction.
+ */
+export type TapLatency = {
+  /** Mean delay in seconds. */
+  offset: number;
+  stddev: number;
+  taps: number;
+};
+
+// localStorage is per browser profile, which is as close to "per device" as
+// a web page gets
+const STORAGE_KEY = "tapLatency";
+
+export const CALIBRATION_CLICKS = 24;
+const CALIBRATION_INTERVAL = 0.6;
+/** Clicks at the start during which the user finds the pulse. */
+const SETTLE_CLICKS = 4;
+const MIN_CALIBRATION_TAPS = 8;
+
+export function loadTapLatency(): TapLatency | null {
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    const latency: unknown = stored !== null ? JSON.parse(stored) : null;
+    return typia.is<TapLatency>(latency) ? latency : null;
+  } catch {
+    return null;
+  }
+}
+
+export function storeTapLatency(latency: TapLatency | null) {
+  if (latency === null) {
+    window.localStorage.removeItem(STORAGE_KEY);
+  } else {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(latency));
+  }
+}
+
+/** Time of the beat a tap at media time `time` was meant for. */
+export function compensateTap(
+  time: number,
+  latency: TapLatency | null,
+  playbackRate: number,
+): number {
+  return Math.max(0, time - (latency?.offset ?? 0) * playbackRate);
+}
+
+/**
+ * Mean offset of taps from the clicks they are closest to. Each click counts
+ * once, taps more than half an interval away from any click are ignored.
+ */
+export function measureTapLatency(
+  clicks: number[],
+  taps: number[],
+  interval: number,
+): TapLatency | null {
+  const offsets = new Map<number, number>();
+  for (const tap of taps) {
+    const i = Math.round((tap - clicks[0]) / interval);
+    if (i < SETTLE_CLICKS || i >= clicks.length || offsets.has(i)) {
+      continue;
+    }
+    const offset = tap - clicks[i];
+    if (Math.abs(offset) < interval / 2) {
+      offsets.set(i, offset);
+    }
+  }
+  const values = [...offsets.values()];
+  if (values.length < MIN_CALIBRATION_TAPS) {
+    return null;
+  }
+  const mean = values.reduce((a, b) => a + b, 0) / values.length;
+  const variance =
+    values.reduce((a, b) => a + (b - mean) * (b - mean), 0) /
+    (values.length - 1);
+  return { offset: mean, stddev: Math.sqrt(variance), taps: values.length };
+}
+
+export type ICalibration = {
+  /** Records a tap at the current audio clock time. */
+  tap: () => void;
+  cancel: () => void;
+};
+
+/**
+ * Plays `CALIBRATION_CLICKS` clicks at a steady tempo and reports the
+ * latency of the taps made along with them, or null if there were too few.
+ */
+export const Calibration = (opts: {
+  audioContext: AudioContext;
+  volume: number;
+  onDone: (latency: TapLatency | null) => void;
+}): ICalibration => {
+  const ctx = opts.audioContext;
+  const gain = ctx.createGain();
+  gain.gain.value = opts.volume;
+  gain.connect(ctx.destination);
+  const buffer = makeClickBuffer(ctx, 1760, 0.9);
+  const start = ctx.currentTime + 0.5;
+  const clicks: number[] = [];
+  const sources: AudioBufferSourceNode[] = [];
+  for (let i = 0; i < CALIBRATION_CLICKS; i++) {
+    const when = start + i * CALIBRATION_INTERVAL;
+    const source = ctx.createBufferSource();
+    source.buffer = buffer;
+    source.connect(gain);
+    source.start(when);
+    clicks.push(when);
+    sources.push(source);
+  }
+  const taps: number[] = [];
+  const end = start + (CALIBRATION_CLICKS + 0.5) * CALIBRATION_INTERVAL;
+  const timer = setTimeout(
+    () => {
+      gain.disconnect();
+      opts.onDone(measureTapLatency(clicks, taps, CALIBRATION_INTERVAL));
+    },
+    (end - ctx.currentTime) * 1000,
+  );
+
+  return {
+    tap: () => {
+      taps.push(ctx.currentTime);
+    },
+    cancel: () => {
+      clearTimeout(timer);
+      for (const source of sources) {
+        source.stop();
+      }
+      gain.disconnect();
+    },
+  };
+};
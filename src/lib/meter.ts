@@ -0,0 +1,156 @@
+import { lowerBound } from "./util";
+
+export type Meter = {
+  beatsPerBar: number;
+  /** Time of one downbeat in the region, the nearest beat to it is beat 1. */
+  downbeatTime: number;
+};
+
+export type BeatPosition = { bar: number; beat: number };
+
+export const DEFAULT_BEATS_PER_BAR = 4;
+
+/** Index of the element of the ascending `grid` closest to `time`. */
+export function nearestIndex(grid: number[], time: number): number {
+  const i = lowerBound(grid, time);
+  if (i === 0) {
+    return 0;
+  } else if (i === grid.length) {
+    return grid.length - 1;
+  }
+  return time - grid[i - 1] <= grid[i] - time ? i - 1 : i;
+}
+
+/**
+ * Bar and beat numbers for the beats `grid` of one region. Bars are numbered
+ * continuously across regions: the bar of the region's downbeat anchor is
+ * `firstBar`, beats before it form a pickup into that bar's predecessor.
+ * Returns the positions and the number of the first bar of the next region.
+ */
+export function barPositions(
+  grid: number[],
+  meter: Meter,
+  firstBar: number,
+): { positions: BeatPosition[]; nextBar: number } {
+  if (grid.length === 0) {
+    return { positions: [], nextBar: firstBar };
+  }
+  const bpb = Math.max(1, Math.round(meter.beatsPerBar));
+  const anchor = nearestIndex(grid, meter.downbeatTime);
+  // the anchor may be far into the region, count its bar from the first
+  // complete bar so numbers keep increasing across regions
+  const barsBeforeAnchor = Math.floor(anchor / bpb);
+  const positions = grid.map((_, i) => {
+    const p = i - anchor;
+    return {
+      bar: firstBar + barsBeforeAnchor + Math.floor(p / bpb),
+      beat: (((p % bpb) + bpb) % bpb) + 1,
+    };
+  });
+  return {
+    positions,
+    nextBar: positions[positions.length - 1].bar + 1,
+  };
+}
+
+export function formatPosition(p: BeatPosition): string {
+  return `${p.bar}.${p.beat}`;
+}
+
+/**
+ * Pulse of a region's beats relative to the beats as they were marked: 2/1
+ * after doubling, 1/2 after halving. Always in lowest terms.
+ */
+export type MetricalLevel = { numerator: number; denominator: number };
+
+export const MARKED_LEVEL: MetricalLevel = { numerator: 1, denominator: 1 };
+
+export type MetricalLevelChange =
+  "double" | "halveEven" | "halveOdd" | "twoToThree" | "threeToTwo";
+
+export const metricalLevelChanges: Record<
+  MetricalLevelChange,
+  { label: string; ratio: MetricalLevel; offset: number }
+> = {
+  double: {
+    label: "Double",
+    ratio: { numerator: 2, denominator: 1 },
+    offset: 0,
+  },
+  halveEven: {
+    label: "Halve, keep 1st, 3rd, ...",
+    ratio: { numerator: 1, denominator: 2 },
+    offset: 0,
+  },
+  halveOdd: {
+    label: "Halve, keep 2nd, 4th, ...",
+    ratio: { numerator: 1, denominator: 2 },
+    offset: 1,
+  },
+  twoToThree: {
+    label: "3 beats per 2",
+    ratio: { numerator: 3, denominator: 2 },
+    offset: 0,
+  },
+  threeToTwo: {
+    label: "2 beats per 3",
+    ratio: { numerator: 2, denominator: 3 },
+    offset: 0,
+  },
+};
+
+function gcd(a: number, b: number): number {
+  return b === 0 ? a : gcd(b, a % b);
+}
+
+export function scaleMetricalLevel(
+  level: MetricalLevel,
+  ratio: MetricalLevel,
+): MetricalLevel {
+  const numerator = level.numerator * ratio.numerator;
+  const denominator = level.denominator * ratio.denominator;
+  const d = gcd(numerator, denominator);
+  return { numerator: numerator / d, denominator: denominator / d };
+}
+
+export function formatMetricalLevel(level: MetricalLevel): string {
+  return `${level.numerator}/${level.denominator}`;
+}
+
+/**
+ * Beats at another metrical level from `times`, the beats of one region.
+ * `steps[i]` is the number of grid periods between beat `i` and `i + 1`.
+ * Beats falling on the new grid are kept with their index in `from`, the new
+ * grid is interpolated between beats that are neighbours on the old one.
+ */
+export function rescaleBeats(
+  times: number[],
+  steps: number[],
+  change: MetricalLevelChange,
+): { time: number; from: number | null }[] {
+  const { ratio, offset } = metricalLevelChanges[change];
+  const { numerator, denominator } = ratio;
+  // new grid index times the denominator, integers throughout
+  const indices = [0];
+  for (const step of steps) {
+    indices.push(indices[indices.length - 1] + step);
+  }
+  const scaled = indices.map((i) => (i - offset) * numerator);
+  const beats: { time: number; from: number | null }[] = [];
+  for (let i = 0; i < times.length; i++) {
+    if (((scaled[i] % denominator) + denominator) % denominator === 0) {
+      beats.push({ time: times[i], from: i });
+    }
+    if (i + 1 < times.length && steps[i] === 1) {
+      const first = Math.floor(scaled[i] / denominator) + 1;
+      for (let n = first; n * denominator < scaled[i + 1]; n++) {
+        const fraction = (n * denominator - scaled[i]) / numerator;
+        beats.push({
+          time: times[i] + fraction * (times[i + 1] - times[i]),
+          from: null,
+        });
+      }
+    }
+  }
+  return beats;
+}
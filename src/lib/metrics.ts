@@ -0,0 +1,393 @@
+/**
+ * Beat tracking evaluation metrics, following the definitions and default
+ * parameters of mir_eval.beat. Beat times are in seconds and ascending.
+ * Unlike `mir_eval.beat.evaluate`, beats in the first five seconds are not
+ * left out, annotations here are expected to cover the whole track.
+ */
+
+/** Tolerance in seconds for a beat to count as a hit in the F-measure. */
+const F_MEASURE_WINDOW = 0.07;
+/** Standard deviation in seconds of the Cemgil error Gaussian. */
+const CEMGIL_SIGMA = 0.04;
+/** P-score tolerance as a fraction of the median reference interval. */
+const P_SCORE_THRESHOLD = 0.2;
+// P-score impulse trains are sampled at 100 Hz
+const P_SCORE_SAMPLE_RATE = 100;
+const CONTINUITY_PHASE_THRESHOLD = 0.175;
+const CONTINUITY_PERIOD_THRESHOLD = 0.175;
+const INFORMATION_GAIN_BINS = 41;
+
+export type BeatMetrics = {
+  fMeasure: number;
+  cemgil: number;
+  pScore: number;
+  /** Correct metrical level, continuous. */
+  cmlc: number;
+  /** Correct metrical level, total. */
+  cmlt: number;
+  /** Allowed metrical levels, continuous. */
+  amlc: number;
+  /** Allowed metrical levels, total. */
+  amlt: number;
+  /** In [0, 1], the original definition in bits is this times log2(41). */
+  informationGain: number;
+};
+
+export const metricLabels: Record<keyof BeatMetrics, string> = {
+  fMeasure: "F-measure",
+  cemgil: "Cemgil",
+  pScore: "P-score",
+  cmlc: "CMLc",
+  cmlt: "CMLt",
+  amlc: "AMLc",
+  amlt: "AMLt",
+  informationGain: "Inf. gain",
+};
+
+export type BeatMatching = {
+  /** Index into the estimated beats of the match of each reference beat. */
+  reference: (number | null)[];
+  /** Index into the reference beats of the match of each estimated beat. */
+  estimated: (number | null)[];
+};
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0
+    ? (sorted[mid - 1] + sorted[mid]) / 2
+    : sorted[mid];
+}
+
+function nearestIndex(beats: number[], time: number): number {
+  let nearest = 0;
+  for (let i = 1; i < beats.length; i++) {
+    if (Math.abs(beats[i] - time) < Math.abs(beats[nearest] - time)) {
+      nearest = i;
+    }
+  }
+  return nearest;
+}
+
+/**
+ * Pairs reference and estimated beats at most `window` seconds apart, each
+ * beat at most once. On a line, matching every reference beat with the
+ * earliest unmatched estimated beat in reach pairs as many beats as possible,
+ * like the bipartite matching of mir_eval.
+ */
+export function matchBeats(
+  reference: number[],
+  estimated: number[],
+  window = F_MEASURE_WINDOW,
+): BeatMatching {
+  const matching: BeatMatching = {
+    reference: reference.map(() => null),
+    estimated: estimated.map(() => null),
+  };
+  let j = 0;
+  for (const [i, time] of reference.entries()) {
+    while (j < estimated.length && estimated[j] < time - window) {
+      j++;
+    }
+    if (j < estimated.length && estimated[j] <= time + window) {
+      matching.reference[i] = j;
+      matching.estimated[j] = i;
+      j++;
+    }
+  }
+  return matching;
+}
+
+export function fMeasure(
+  reference: number[],
+  estimated: number[],
+  window = F_MEASURE_WINDOW,
+): number {
+  if (reference.length === 0 || estimated.length === 0) {
+    return 0;
+  }
+  const hits = matchBeats(reference, estimated, window).reference.filter(
+    (m) => m !== null,
+  ).length;
+  const precision = hits / estimated.length;
+  const recall = hits / reference.length;
+  return precision + recall > 0
+    ? (2 * precision * recall) / (precision + recall)
+    : 0;
+}
+
+export function cemgil(
+  reference: number[],
+  estimated: number[],
+  sigma = CEMGIL_SIGMA,
+): number {
+  if (reference.length === 0 || estimated.length === 0) {
+    return 0;
+  }
+  let accuracy = 0;
+  for (const time of reference) {
+    const error = estimated[nearestIndex(estimated, time)] - time;
+    accuracy += Math.exp(-(error * error) / (2 * sigma * sigma));
+  }
+  return accuracy / (0.5 * (reference.length + estimated.length));
+}
+
+/**
+ * Cross-correlation of the two beat sequences as impulse trains, within a
+ * window of a fifth of the median reference interval.
+ */
+export function pScore(
+  reference: number[],
+  estimated: number[],
+  threshold = P_SCORE_THRESHOLD,
+): number {
+  if (reference.length < 2 || estimated.length < 2) {
+    return 0;
+  }
+  const offset = Math.min(reference[0], estimated[0]);
+  const samples = (beats: number[]) => [
+    ...new Set(beats.map((t) => Math.ceil((t - offset) * P_SCORE_SAMPLE_RATE))),
+  ];
+  const referenceSamples = samples(reference);
+  const estimatedSamples = samples(estimated);
+  const window = Math.round(
+    threshold *
+      median(referenceSamples.slice(1).map((s, i) => s - referenceSamples[i])),
+  );
+  let correlation = 0;
+  let from = 0;
+  for (const r of referenceSamples) {
+    while (
+      from < estimatedSamples.length &&
+      estimatedSamples[from] < r - window
+    ) {
+      from++;
+    }
+    for (
+      let j = from;
+      j < estimatedSamples.length && estimatedSamples[j] <= r + window;
+      j++
+    ) {
+      correlation++;
+    }
+  }
+  return correlation / Math.max(reference.length, estimated.length);
+}
+
+/**
+ * The reference at the metrical levels that count as allowed: as is, on the
+ * offbeats, at double tempo and at half tempo on either phase.
+ */
+function referenceVariations(reference: number[]): number[][] {
+  const double = reference.flatMap((t, i) =>
+    i < reference.length - 1 ? [t, (t + reference[i + 1]) / 2] : [t],
+  );
+  return [
+    reference,
+    double.filter((_, i) => i % 2 === 1),
+    double,
+    reference.filter((_, i) => i % 2 === 0),
+    reference.filter((_, i) => i % 2 === 1),
+  ];
+}
+
+/**
+ * Longest and total fraction of estimated beats close to a reference beat in
+ * both phase and period, each reference beat used once.
+ */
+function continuityAt(
+  reference: number[],
+  estimated: number[],
+): { continuous: number; total: number } {
+  const count = Math.max(reference.length, estimated.length);
+  const used = new Set<number>();
+  let longest = 0;
+  let run = 0;
+  let total = 0;
+  for (const [m, time] of estimated.entries()) {
+    const nearest = nearestIndex(reference, time);
+    const difference = Math.abs(time - reference[nearest]);
+    let success = false;
+    if (!used.has(nearest)) {
+      let referenceInterval: number;
+      let estimatedInterval: number;
+      if (m === 0 || nearest === 0) {
+        // no previous beat to compare with, look forward
+        referenceInterval =
+          nearest + 1 < reference.length
+            ? reference[nearest + 1] - reference[nearest]
+            : reference[nearest] - reference[nearest - 1];
+        estimatedInterval =
+          m + 1 < estimated.length
+            ? estimated[m + 1] - time
+            : time - estimated[m - 1];
+      } else {
+        referenceInterval = reference[nearest] - reference[nearest - 1];
+        estimatedInterval = time - estimated[m - 1];
+      }
+      const phase =
+        referenceInterval === 0
+          ? difference === 0
+            ? 0
+            : Infinity
+          : difference / referenceInterval;
+      const period =
+        referenceInterval === 0
+          ? estimatedInterval === 0
+            ? 0
+            : Infinity
+          : Math.abs(1 - estimatedInterval / referenceInterval);
+      success =
+        phase < CONTINUITY_PHASE_THRESHOLD &&
+        period < CONTINUITY_PERIOD_THRESHOLD;
+    }
+    if (success) {
+      used.add(nearest);
+      total++;
+      run++;
+      longest = Math.max(longest, run);
+    } else {
+      run = 0;
+    }
+  }
+  return { continuous: longest / count, total: total / count };
+}
+
+export function continuity(
+  reference: number[],
+  estimated: number[],
+): Pick<BeatMetrics, "cmlc" | "cmlt" | "amlc" | "amlt"> {
+  if (reference.length < 2 || estimated.length < 2) {
+    return { cmlc: 0, cmlt: 0, amlc: 0, amlt: 0 };
+  }
+  const results = referenceVariations(reference)
+    .filter((variation) => variation.length >= 2)
+    .map((variation) => continuityAt(variation, estimated));
+  return {
+    cmlc: results[0].continuous,
+    cmlt: results[0].total,
+    amlc: Math.max(...results.map((r) => r.continuous)),
+    amlt: Math.max(...results.map((r) => r.total)),
+  };
+}
+
+/**
+ * Entropy of the histogram of the errors of `estimated` beats relative to
+ * the `reference` beat interval they fall in, wrapped to half an interval.
+ * Binned like mir_eval: `bins` edges, the outermost two bins merged, and
+ * empty bins counted once.
+ */
+function beatErrorEntropy(
+  reference: number[],
+  estimated: number[],
+  bins: number,
+): number {
+  const histogram = new Array<number>(bins - 1).fill(0);
+  for (const time of estimated) {
+    const closest = nearestIndex(reference, time);
+    const error = time - reference[closest];
+    let interval: number;
+    if (closest === 0) {
+      interval = reference[1] - reference[0];
+    } else if (closest === reference.length - 1) {
+      interval = reference[closest] - reference[closest - 1];
+    } else if (error < 0) {
+      interval = reference[closest] - reference[closest - 1];
+    } else {
+      interval = reference[closest + 1] - reference[closest];
+    }
+    const relative = interval > 0 ? error / interval : 0;
+    // in (-0.5, 0.5]
+    const wrapped = relative - Math.ceil(relative - 0.5);
+    const bin = Math.min(bins - 2, Math.floor((wrapped + 0.5) * (bins - 1)));
+    histogram[bin]++;
+  }
+  // -0.5 and 0.5 are the same error
+  const merged = [
+    histogram[0] + histogram[bins - 2],
+    ...histogram.slice(1, bins - 2),
+  ];
+  const counts = merged.map((count) => Math.max(count, 1));
+  const total = counts.reduce((a, b) => a + b, 0);
+  let entropy = 0;
+  for (const count of counts) {
+    const p = count / total;
+    entropy -= p * Math.log2(p);
+  }
+  return entropy;
+}
+
+export function informationGain(
+  reference: number[],
+  estimated: number[],
+  bins = INFORMATION_GAIN_BINS,
+): number {
+  if (reference.length < 2 || estimated.length < 2) {
+    return 0;
+  }
+  const entropy = Math.max(
+    beatErrorEntropy(reference, estimated, bins),
+    beatErrorEntropy(estimated, reference, bins),
+  );
+  const norm = Math.log2(bins);
+  return (norm - entropy) / norm;
+}
+
+export function beatMetrics(
+  reference: number[],
+  estimated: number[],
+): BeatMetrics {
+  return {
+    fMeasure: fMeasure(reference, estimated),
+    cemgil: cemgil(reference, estimated),
+    pScore: pScore(reference, estimated),
+    ...continuity(reference, estimated),
+    informationGain: informationGain(reference, estimated),
+  };
+}
+
+export type RegionScore = {
+  startTime: number;
+  endTime: number;
+  referenceBeats: number;
+  estimatedBeats: number;
+  metrics: BeatMetrics;
+};
+
+export type Comparison = {
+  reference: number[];
+  estimated: number[];
+  metrics: BeatMetrics;
+  matching: BeatMatching;
+  regions: RegionScore[];
+};
+
+/**
+ * Scores `estimated` beats against `reference` beats over the whole track,
+ * and separately within each of `regions`.
+ */
+export function compareBeats(
+  reference: number[],
+  estimated: number[],
+  regions: { startTime: number; endTime: number }[],
+): Comparison {
+  const within = (beats: number[], startTime: number, endTime: number) =>
+    beats.filter((t) => startTime <= t && t < endTime);
+  return {
+    reference,
+    estimated,
+    metrics: beatMetrics(reference, estimated),
+    matching: matchBeats(reference, estimated),
+    regions: regions.map(({ startTime, endTime }) => {
+      const r = within(reference, startTime, endTime);
+      const e = within(estimated, startTime, endTime);
+      return {
+        startTime,
+        endTime,
+        referenceBeats: r.length,
+        estimatedBeats: e.length,
+        metrics: beatMetrics(r, e),
+      };
+    }),
+  };
+}
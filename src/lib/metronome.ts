@@ -0,0 +1,192 @@
+export type ClickKind = "user" | "auto";
+
+export type Click = { time: number; markerType: ClickKind };
+
+export type IMetronome = {
+  volume: number;
+  muted: boolean;
+  reschedule: () => void;
+  destroy: () => void;
+};
+
+// how often the scheduler wakes up and how far ahead of the playhead it
+// schedules clicks, both in seconds of wall clock time
+const SCHEDULE_INTERVAL = 0.025;
+const LOOKAHEAD = 0.15;
+// re-anchor media time to the audio clock if they drift apart by more than this
+const MAX_CLOCK_DRIFT = 0.04;
+const CLICK_DURATION = 0.03;
+
+export function makeClickBuffer(
+  ctx: AudioContext,
+  frequency: number,
+  amplitude: number,
+): AudioBuffer {
+  const length = Math.ceil(ctx.sampleRate * CLICK_DURATION);
+  const buffer = ctx.createBuffer(1, length, ctx.sampleRate);
+  const data = buffer.getChannelData(0);
+  for (let i = 0; i < length; i++) {
+    const t = i / ctx.sampleRate;
+    const envelope = Math.exp(-t / (CLICK_DURATION / 6));
+    data[i] = amplitude * envelope * Math.sin(2 * Math.PI * frequency * t);
+  }
+  return buffer;
+}
+
+/**
+ * Schedules click sounds on an AudioContext so that they line up with the
+ * playback position of a media element. Beats are pulled through `getBeats`
+ * for a short window ahead of the playhead, so edits are picked up on the
+ * next scheduler tick; `reschedule` drops clicks that were already queued.
+ */
+export const Metronome = (opts: {
+  audioContext: AudioContext;
+  mediaElement: HTMLMediaElement;
+  getBeats: (startTime: number, endTime: number) => Click[];
+}): IMetronome => {
+  const ctx = opts.audioContext;
+  const el = opts.mediaElement;
+  const gain = ctx.createGain();
+  gain.connect(ctx.destination);
+  const buffers: Record<ClickKind, AudioBuffer> = {
+    user: makeClickBuffer(ctx, 1760, 0.9),
+    auto: makeClickBuffer(ctx, 880, 0.6),
+  };
+  let volume = 0.8;
+  let muted = false;
+  gain.gain.value = volume;
+
+  let scheduled: { source: AudioBufferSourceNode; when: number }[] = [];
+  // media time up to which clicks have been scheduled
+  let scheduledUntil: number | null = null;
+  let anchor: { ctxTime: number; mediaTime: number; rate: number } | null =
+    null;
+  let timer: ReturnType<typeof setInterval> | null = null;
+
+  const mediaTimeAt = (ctxTime: number): number => {
+    if (anchor === null) {
+      return el.currentTime;
+    }
+    return anchor.mediaTime + (ctxTime - anchor.ctxTime) * anchor.rate;
+  };
+
+  const setAnchor = () => {
+    anchor = {
+      ctxTime: ctx.currentTime,
+      mediaTime: el.currentTime,
+      rate: el.playbackRate,
+    };
+  };
+
+  const cancelScheduled = () => {
+    const now = ctx.currentTime;
+    for (const { source, when } of scheduled) {
+      if (when > now) {
+        source.stop();
+      }
+    }
+    scheduled = [];
+    scheduledUntil = null;
+  };
+
+  const tick = () => {
+    if (el.paused || anchor === null) {
+      return;
+    }
+    const now = ctx.currentTime;
+    const predicted = mediaTimeAt(now);
+    if (Math.abs(predicted - el.currentTime) > MAX_CLOCK_DRIFT) {
+      setAnchor();
+    }
+    scheduled = scheduled.filter(({ when }) => when > now);
+    if (muted) {
+      scheduledUntil = null;
+      return;
+    }
+    const from = scheduledUntil ?? mediaTimeAt(now);
+    const to = mediaTimeAt(now + LOOKAHEAD);
+    if (to <= from) {
+      return;
+    }
+    for (const click of opts.getBeats(from, to)) {
+      if (click.time < from || to <= click.time) {
+        continue;
+      }
+      const when =
+        anchor.ctxTime + (click.time - anchor.mediaTime) / anchor.rate;
+      if (when < now) {
+        continue;
+      }
+      const source = ctx.createBufferSource();
+      source.buffer = buffers[click.markerType];
+      source.connect(gain);
+      source.start(when);
+      scheduled.push({ source, when });
+    }
+    scheduledUntil = to;
+  };
+
+  const startScheduler = () => {
+    if (ctx.state === "suspended") {
+      ctx.resume();
+    }
+    setAnchor();
+    cancelScheduled();
+    if (timer === null) {
+      timer = setInterval(tick, SCHEDULE_INTERVAL * 1000);
+    }
+    tick();
+  };
+
+  const stopScheduler = () => {
+    if (timer !== null) {
+      clearInterval(timer);
+      timer = null;
+    }
+    anchor = null;
+    cancelScheduled();
+  };
+
+  const reschedule = () => {
+    cancelScheduled();
+    if (!el.paused) {
+      setAnchor();
+      tick();
+    }
+  };
+
+  el.addEventListener("playing", startScheduler);
+  el.addEventListener("pause", stopScheduler);
+  el.addEventListener("seeked", reschedule);
+  el.addEventListener("ratechange", reschedule);
+
+  return {
+    get volume() {
+      return volume;
+    },
+    set volume(v) {
+      volume = v;
+      gain.gain.setTargetAtTime(v, ctx.currentTime, 0.01);
+    },
+    get muted() {
+      return muted;
+    },
+    set muted(m) {
+      muted = m;
+      if (m) {
+        cancelScheduled();
+      } else {
+        reschedule();
+      }
+    },
+    reschedule,
+    destroy: () => {
+      stopScheduler();
+      el.removeEventListener("playing", startScheduler);
+      el.removeEventListener("pause", stopScheduler);
+      el.removeEventListener("seeked", reschedule);
+      el.removeEventListener("ratechange", reschedule);
+      gain.disconnect();
+    },
+  };
+};
@@ -0,0 +1,231 @@
+import { FFT } from "./fft";
+
+// analysis window length in seconds, rounded to a power of two in samples
+const FRAME_DURATION = 0.046;
+// analysis frames per second, independent of the audio sample rate
+export const TARGET_FRAME_RATE = 100;
+
+export type OnsetEnvelope = {
+  /** Onset strength per frame, frame `i` is centered at `i / frameRate`. */
+  values: Float32Array;
+  frameRate: number;
+};
+
+export function hannWindow(size: number): Float32Array {
+  const w = new Float32Array(size);
+  for (let i = 0; i < size; i++) {
+    w[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / size);
+  }
+  return w;
+}
+
+export function frameLayout(
+  sampleCount: number,
+  sampleRate: number,
+): { frameSize: number; hop: number; frameRate: number; frameCount: number } {
+  const hop = Math.max(1, Math.round(sampleRate / TARGET_FRAME_RATE));
+  return {
+    frameSize: Math.pow(2, Math.round(Math.log2(sampleRate * FRAME_DURATION))),
+    hop,
+    frameRate: sampleRate / hop,
+    frameCount: Math.floor(sampleCount / hop) + 1,
+  };
+}
+
+/**
+ * Calls `onFrame` with the magnitude spectrum of every analysis frame of
+ * `samples`. Frames are centered on multiples of the hop size, the signal is
+ * zero padded at both ends.
+ */
+export function forEachSpectrum(
+  samples: Float32Array,
+  sampleRate: number,
+  onFrame: (frameIdx: number, magnitudes: Float32Array) => void,
+): { frameRate: number; frameCount: number } {
+  const { frameSize, hop, frameRate, frameCount } = frameLayout(
+    samples.length,
+    sampleRate,
+  );
+  const fft = FFT(frameSize);
+  const window = hannWindow(frameSize);
+  const frame = new Float32Array(frameSize);
+  const mags = new Float32Array(frameSize / 2 + 1);
+  for (let f = 0; f < frameCount; f++) {
+    const start = f * hop - frameSize / 2;
+    for (let i = 0; i < frameSize; i++) {
+      const s = start + i;
+      frame[i] = s >= 0 && s < samples.length ? samples[s] * window[i] : 0;
+    }
+    fft.magnitudes(frame, mags);
+    onFrame(f, mags);
+  }
+  return { frameRate, frameCount };
+}
+
+/**
+ * Spectral flux onset strength: half-wave rectified increase of the log
+ * compressed magnitude spectrum between consecutive frames, averaged over
+ * frequency bins and normalized to unit standard deviation.
+ */
+export function onsetStrength(
+  samples: Float32Array,
+  sampleRate: number,
+): OnsetEnvelope {
+  const layout = frameLayout(samples.length, sampleRate);
+  const bins = layout.frameSize / 2 + 1;
+  const prev = new Float32Array(bins);
+  const values = new Float32Array(layout.frameCount);
+  const { frameRate } = forEachSpectrum(samples, sampleRate, (f, mags) => {
+    let flux = 0;
+    for (let b = 0; b < bins; b++) {
+      const v = Math.log1p(100 * mags[b]);
+      if (f > 0 && v > prev[b]) {
+        flux += v - prev[b];
+      }
+      prev[b] = v;
+    }
+    values[f] = flux / bins;
+  });
+  normalize(values);
+  return { values, frameRate };
+}
+
+function normalize(values: Float32Array) {
+  let sum = 0;
+  for (const v of values) {
+    sum += v;
+  }
+  const mean = values.length > 0 ? sum / values.length : 0;
+  let sq = 0;
+  for (const v of values) {
+    sq += (v - mean) * (v - mean);
+  }
+  const std = values.length > 0 ? Math.sqrt(sq / values.length) : 0;
+  if (std > 0) {
+    for (let i = 0; i < values.length; i++) {
+      values[i] /= std;
+    }
+  }
+}
+
+// peak picking parameters, in seconds
+const PEAK_HALF_WIDTH = 0.03;
+const MEAN_HALF_WIDTH = 0.1;
+const MIN_ONSET_SPACING = 0.03;
+// how far above the local mean a peak has to rise, in units of the
+// normalized envelope
+const PEAK_THRESHOLD = 0.3;
+
+/**
+ * Transient times picked from an onset envelope: local maxima that exceed the
+ * moving average around them by a fixed threshold, at least
+ * `MIN_ONSET_SPACING` apart.
+ */
+export function pickOnsets(env: OnsetEnvelope): number[] {
+  const { values, frameRate } = env;
+  const peakHalf = Math.max(1, Math.round(PEAK_HALF_WIDTH * frameRate));
+  const meanHalf = Math.max(1, Math.round(MEAN_HALF_WIDTH * frameRate));
+  const onsets: number[] = [];
+  let lastOnset = Number.NEGATIVE_INFINITY;
+  for (let i = 0; i < values.length; i++) {
+    let isPeak = true;
+    for (
+      let j = Math.max(0, i - peakHalf);
+      j <= Math.min(values.length - 1, i + peakHalf);
+      j++
+    ) {
+      if (values[j] > values[i]) {
+        isPeak = false;
+        break;
+      }
+    }
+    if (!isPeak) {
+      continue;
+    }
+    let sum = 0;
+    const from = Math.max(0, i - meanHalf);
+    const to = Math.min(values.length - 1, i + meanHalf);
+    for (let j = from; j <= to; j++) {
+      sum += values[j];
+    }
+    const mean = sum / (to - from + 1);
+    const t = i / frameRate;
+    if (
+      values[i] >= mean + PEAK_THRESHOLD &&
+      t - lastOnset >= MIN_ONSET_SPACING
+    ) {
+      onsets.push(t);
+      lastOnset = t;
+    }
+  }
+  return onsets;
+}
+
+const SPECTROGRAM_BANDS = 96;
+const SPECTROGRAM_MIN_FREQUENCY = 40;
+const SPECTROGRAM_MAX_FREQUENCY = 16000;
+// level range in dB below the loudest band that is shown
+const SPECTROGRAM_DYNAMIC_RANGE = 80;
+
+export type Spectrogram = {
+  /** Level per frame and band scaled to 0..255, frame major. */
+  values: Uint8Array;
+  bands: number;
+  frameRate: number;
+  minFrequency: number;
+  maxFrequency: number;
+};
+
+/**
+ * Magnitude spectrogram on logarithmically spaced frequency bands, in dB
+ * relative to its loudest value. Bands narrower than the FFT resolution take
+ * the bin nearest to their center.
+ */
+export function logSpectrogram(
+  samples: Float32Array,
+  sampleRate: number,
+): Spectrogram {
+  const { frameSize, frameCount } = frameLayout(samples.length, sampleRate);
+  const bins = frameSize / 2 + 1;
+  const binWidth = sampleRate / frameSize;
+  const minFrequency = SPECTROGRAM_MIN_FREQUENCY;
+  const maxFrequency = Math.min(SPECTROGRAM_MAX_FREQUENCY, sampleRate / 2);
+  const bands = SPECTROGRAM_BANDS;
+  const edge = (k: number) =>
+    minFrequency * Math.pow(maxFrequency / minFrequency, k / bands);
+  const bandBins: { from: number; to: number }[] = [];
+  for (let k = 0; k < bands; k++) {
+    const from = Math.ceil(edge(k) / binWidth);
+    const to = Math.min(bins, Math.ceil(edge(k + 1) / binWidth));
+    if (from < to) {
+      bandBins.push({ from, to });
+    } else {
+      const center = Math.min(
+        bins - 1,
+        Math.round(Math.sqrt(edge(k) * edge(k + 1)) / binWidth),
+      );
+      bandBins.push({ from: center, to: center + 1 });
+    }
+  }
+  const levels = new Float32Array(frameCount * bands);
+  let loudest = Number.NEGATIVE_INFINITY;
+  const { frameRate } = forEachSpectrum(samples, sampleRate, (f, mags) => {
+    for (let k = 0; k < bands; k++) {
+      const { from, to } = bandBins[k];
+      let sum = 0;
+      for (let b = from; b < to; b++) {
+        sum += mags[b];
+      }
+      const db = 20 * Math.log10(sum / (to - from) + 1e-10);
+      levels[f * bands + k] = db;
+      loudest = Math.max(loudest, db);
+    }
+  });
+  const values = new Uint8Array(levels.length);
+  const floor = loudest - SPECTROGRAM_DYNAMIC_RANGE;
+  for (let i = 0; i < levels.length; i++) {
+    const v = (levels[i] - floor) / SPECTROGRAM_DYNAMIC_RANGE;
+    values[i] = Math.round(255 * Math.min(1, Math.max(0, v)));
+  }
+  return { values, bands, frameRate, minFrequency, maxFrequency };
+}
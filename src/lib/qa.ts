@@ -0,0 +1,223 @@
+import {
+  beatPeriodAt,
+  MIN_BEAT_SPACING,
+  OFF_GRID_FRACTION,
+  type TempoRegion,
+} from "./annotate";
+import { formatPosition } from "./meter";
+
+export type QaIssue = {
+  /** Where to look, in seconds. */
+  time: number;
+  message: string;
+};
+
+export type QaCheck = {
+  id: string;
+  label: string;
+  run: (regions: TempoRegion[]) => QaIssue[];
+};
+
+export type QaResult = {
+  check: QaCheck;
+  issues: QaIssue[];
+};
+
+/** Tapped tempo std. dev. above this fraction of the tempo is suspicious. */
+const MAX_RELATIVE_STDDEV = 0.04;
+/** Beat periods between two marked beats before they count as a gap. */
+const MAX_GAP_BEATS = 8;
+/** Gap in seconds where the tempo is not known yet. */
+const MAX_GAP_SECONDS = 10;
+/** Intervals below this fraction of the region's median look double tapped. */
+const DOUBLE_TAP_FRACTION = 0.5;
+const DRIFT_MIN_BEATS = 4;
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1
+    ? sorted[mid]
+    : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+function ms(seconds: number): string {
+  return `${Math.round(seconds * 1000)} ms`;
+}
+
+function beatName(beat: TempoRegion["userBeats"][number]): string {
+  return beat.position !== null
+    ? `beat ${formatPosition(beat.position)}`
+    : "marked beat";
+}
+
+const singleBeat: QaCheck = {
+  id: "singleBeat",
+  label: "Regions with more than one beat",
+  run: (regions) =>
+    regions
+      .filter((r) => r.userBeats.length < 2)
+      .map((r) => ({
+        time: r.startTime,
+        message:
+          r.tempo.type === "fixed"
+            ? `region ${r.index} has a single marked beat`
+            : `region ${r.index} has a single marked beat, no tempo can be inferred`,
+      })),
+};
+
+const tempoSpread: QaCheck = {
+  id: "tempoSpread",
+  label: "Steady tapped tempo",
+  run: (regions) =>
+    regions.flatMap((r) => {
+      if (
+        r.tempo.type !== "tapped" ||
+        r.tempo.value === null ||
+        r.userBeats.length < 3
+      ) {
+        return [];
+      }
+      const bpm = 60 / r.tempo.value.meanPeriod;
+      const { stddev } = r.tempo.value;
+      if (stddev <= MAX_RELATIVE_STDDEV * bpm) {
+        return [];
+      }
+      return [
+        {
+          time: r.startTime,
+          message: `region ${r.index} tempo varies by ${stddev.toFixed(1)} bpm around ${bpm.toFixed(1)} bpm, check for misplaced beats or use a ramp`,
+        },
+      ];
+    }),
+};
+
+const gaps: QaCheck = {
+  id: "gaps",
+  label: "No large gaps between marked beats",
+  run: (regions) => {
+    const issues: QaIssue[] = [];
+    const beats = regions.flatMap((r) => r.userBeats.map((b) => ({ r, b })));
+    for (let i = 1; i < beats.length; i++) {
+      const { r, b: before } = beats[i - 1];
+      const gap = beats[i].b.time - before.time;
+      const period = beatPeriodAt(r, before.time);
+      const limit = period !== null ? MAX_GAP_BEATS * period : MAX_GAP_SECONDS;
+      if (gap > limit) {
+        issues.push({
+          time: before.time,
+          message:
+            period !== null
+              ? `no marked beat for ${gap.toFixed(1)} s, about ${Math.round(gap / period)} beats`
+              : `no marked beat for ${gap.toFixed(1)} s`,
+        });
+      }
+    }
+    return issues;
+  },
+};
+
+const doubleTaps: QaCheck = {
+  id: "doubleTaps",
+  label: "No double tapped beats",
+  run: (regions) =>
+    regions.flatMap((r) => {
+      const intervals = r.userBeats
+        .slice(1)
+        .map((b, i) => b.time - r.userBeats[i].time);
+      if (intervals.length === 0) {
+        return [];
+      }
+      const limit =
+        intervals.length >= 2
+          ? DOUBLE_TAP_FRACTION * median(intervals)
+          : 1.5 * MIN_BEAT_SPACING;
+      return intervals.flatMap((interval, i) =>
+        interval < limit
+          ? [
+              {
+                time: r.userBeats[i].time,
+                message: `${beatName(r.userBeats[i + 1])} is only ${ms(interval)} after the previous one`,
+              },
+            ]
+          : [],
+      );
+    }),
+};
+
+const offGrid: QaCheck = {
+  id: "offGrid",
+  label: "Marked beats on the fitted grid",
+  run: (regions) =>
+    regions.flatMap((r) =>
+      r.userBeats
+        .filter((b) => b.offGrid && b.residual !== null)
+        .map((b) => ({
+          time: b.time,
+          message: `${beatName(b)} is ${b.residual! > 0 ? "+" : ""}${ms(b.residual!)} off the fitted grid`,
+        })),
+    ),
+};
+
+/**
+ * A wrong fixed or ramp tempo shows as residuals that grow steadily across
+ * the region, while the beats themselves may all be within the off grid limit.
+ */
+const drift: QaCheck = {
+  id: "drift",
+  label: "Inferred beats follow the marked ones",
+  run: (regions) =>
+    regions.flatMap((r) => {
+      const beats = r.userBeats.filter((b) => b.residual !== null);
+      if (r.tempo.type === "tapped" || beats.length < DRIFT_MIN_BEATS) {
+        return [];
+      }
+      const n = beats.length;
+      const meanTime = beats.reduce((a, b) => a + b.time, 0) / n;
+      const meanResidual = beats.reduce((a, b) => a + b.residual!, 0) / n;
+      let sxy = 0;
+      let sxx = 0;
+      for (const b of beats) {
+        sxy += (b.time - meanTime) * (b.residual! - meanResidual);
+        sxx += (b.time - meanTime) * (b.time - meanTime);
+      }
+      const last = beats[n - 1];
+      const amount = (sxy / sxx) * (last.time - beats[0].time);
+      const period = beatPeriodAt(r, last.time);
+      if (period === null || Math.abs(amount) <= OFF_GRID_FRACTION * period) {
+        return [];
+      }
+      return [
+        {
+          time: r.startTime,
+          message: `inferred beats of region ${r.index} drift ${ms(Math.abs(amount))} from the marked ones, the ${r.tempo.type} tempo looks ${amount > 0 ? "too fast" : "too slow"}`,
+        },
+      ];
+    }),
+};
+
+const suggestions: QaCheck = {
+  id: "suggestions",
+  label: "Beat tracker suggestions reviewed",
+  run: (regions) =>
+    regions
+      .filter((r) => r.suggested)
+      .map((r) => ({
+        time: r.startTime,
+        message: `region ${r.index} is a suggestion that was not accepted`,
+      })),
+};
+
+export const qaChecks: QaCheck[] = [
+  singleBeat,
+  tempoSpread,
+  gaps,
+  doubleTaps,
+  offGrid,
+  drift,
+  suggestions,
+];
+
+export function runQa(regions: TempoRegion[]): QaResult[] {
+  return qaChecks.map((check) => ({ check, issues: check.run(regions) }));
+}
@@ -0,0 +1,185 @@
+export type RampCurve = "linear" | "easeIn" | "easeOut" | "easeInOut";
+
+export const rampCurves: { curve: RampCurve; label: string }[] = [
+  { curve: "linear", label: "Linear" },
+  { curve: "easeIn", label: "Ease in" },
+  { curve: "easeOut", label: "Ease out" },
+  { curve: "easeInOut", label: "Ease in and out" },
+];
+
+export type Ramp = {
+  startBpm: number;
+  endBpm: number;
+  curve: RampCurve;
+};
+
+/**
+ * Time span over which the tempo moves from the start to the end tempo,
+ * before it the start tempo holds and after it the end tempo.
+ */
+export type RampSpan = { start: number; end: number };
+
+/** Fraction of the tempo change reached at `x` in [0, 1]. */
+function ease(curve: RampCurve, x: number): number {
+  switch (curve) {
+    case "linear":
+      return x;
+    case "easeIn":
+      return x * x;
+    case "easeOut":
+      return 1 - (1 - x) * (1 - x);
+    case "easeInOut":
+      return x < 0.5 ? 2 * x * x : 1 - 2 * (1 - x) * (1 - x);
+  }
+}
+
+/** Integral of `ease` from 0 to `x`. */
+function easeIntegral(curve: RampCurve, x: number): number {
+  switch (curve) {
+    case "linear":
+      return (x * x) / 2;
+    case "easeIn":
+      return (x * x * x) / 3;
+    case "easeOut":
+      return x + (Math.pow(1 - x, 3) - 1) / 3;
+    case "easeInOut":
+      return x < 0.5
+        ? (2 / 3) * x * x * x
+        : 1 / 12 + (x - 0.5) + (2 / 3) * (Math.pow(1 - x, 3) - 0.125);
+  }
+}
+
+function clamp01(x: number): number {
+  return Math.min(1, Math.max(0, x));
+}
+
+function spanPosition(span: RampSpan, time: number): number {
+  const length = span.end - span.start;
+  return length > 0 ? clamp01((time - span.start) / length) : 0;
+}
+
+export function rampBpmAt(ramp: Ramp, span: RampSpan, time: number): number {
+  const x = spanPosition(span, time);
+  return ramp.startBpm + (ramp.endBpm - ramp.startBpm) * ease(ramp.curve, x);
+}
+
+/**
+ * Beats elapsed between the span start and `time`, split into the parts
+ * contributed by the start and by the end tempo so that fitting both is a
+ * linear problem: phase = startBpm * a + endBpm * b.
+ */
+function phaseWeights(
+  curve: RampCurve,
+  span: RampSpan,
+  time: number,
+): { a: number; b: number } {
+  const length = span.end - span.start;
+  if (time <= span.start || length <= 0) {
+    const t = time - span.start;
+    return length <= 0 && t > 0 ? { a: 0, b: t / 60 } : { a: t / 60, b: 0 };
+  }
+  const x = spanPosition(span, time);
+  const eased = length * easeIntegral(curve, x);
+  const within = length * x;
+  const after = Math.max(0, time - span.end);
+  return { a: (within - eased) / 60, b: (eased + after) / 60 };
+}
+
+/** Beats elapsed between the span start and `time`, negative before it. */
+export function rampPhaseAt(ramp: Ramp, span: RampSpan, time: number): number {
+  const { a, b } = phaseWeights(ramp.curve, span, time);
+  return ramp.startBpm * a + ramp.endBpm * b;
+}
+
+/** Time at which the phase reaches `phase`, by Newton's method. */
+function timeAtPhase(ramp: Ramp, span: RampSpan, phase: number): number {
+  let t = span.start + (phase * 60) / ramp.startBpm;
+  for (let i = 0; i < 50; i++) {
+    const err = rampPhaseAt(ramp, span, t) - phase;
+    if (Math.abs(err) < 1e-9) {
+      break;
+    }
+    t -= (err * 60) / rampBpmAt(ramp, span, t);
+  }
+  return t;
+}
+
+/**
+ * Beats in [startTime, endTime) of a ramp whose beats fall where the phase
+ * is `phaseOffset` plus an integer.
+ */
+export function rampBeats(
+  ramp: Ramp,
+  span: RampSpan,
+  phaseOffset: number,
+  startTime: number,
+  endTime: number,
+): number[] {
+  if (ramp.startBpm <= 0 || ramp.endBpm <= 0) {
+    return [];
+  }
+  const beats: number[] = [];
+  const first = Math.ceil(rampPhaseAt(ramp, span, startTime) - phaseOffset);
+  for (let k = first; ; k++) {
+    const t = timeAtPhase(ramp, span, k + phaseOffset);
+    if (t >= endTime) {
+      break;
+    }
+    if (t >= startTime) {
+      beats.push(t);
+    }
+  }
+  return beats;
+}
+
+/**
+ * Number of beats from the first of `times` to each of them, allowing for
+ * skipped beats by comparing every interval with the preceding one.
+ */
+export function beatCounts(times: number[]): number[] {
+  const counts = [0];
+  let reference = times.length > 1 ? times[1] - times[0] : 0;
+  for (let i = 1; i < times.length; i++) {
+    const interval = times[i] - times[i - 1];
+    const n = Math.max(1, Math.round(interval / reference));
+    reference = interval / n;
+    counts.push(counts[i - 1] + n);
+  }
+  return counts;
+}
+
+/**
+ * Least squares fit of the start and end tempo to marked beats, the ramp
+ * spanning from the first to the last of them. Needs at least three beats.
+ */
+export function fitRamp(
+  times: number[],
+  curve: RampCurve,
+): { startBpm: number; endBpm: number } | null {
+  if (times.length < 3) {
+    return null;
+  }
+  const span = { start: times[0], end: times[times.length - 1] };
+  const counts = beatCounts(times);
+  let saa = 0;
+  let sab = 0;
+  let sbb = 0;
+  let san = 0;
+  let sbn = 0;
+  for (let i = 1; i < times.length; i++) {
+    const { a, b } = phaseWeights(curve, span, times[i]);
+    saa += a * a;
+    sab += a * b;
+    sbb += b * b;
+    san += a * counts[i];
+    sbn += b * counts[i];
+  }
+  const det = saa * sbb - sab * sab;
+  if (Math.abs(det) < 1e-12) {
+    return null;
+  }
+  return {
+    startBpm: (san * sbb - sbn * sab) / det,
+    endBpm: (sbn * saa - san * sab) / det,
+  };
+}
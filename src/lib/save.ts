@@ -0,0 +1,149 @@
+import typia, { type IValidation } from "typia";
+import type { SaveObject, SaveWithMetadata } from "./annotate";
+import { DEFAULT_BEATS_PER_BAR } from "./meter";
+
+/**
+ * Version written into saves. Bump it together with a new entry in
+ * `migrations` whenever the meaning of stored fields changes.
+ */
+export const SAVE_VERSION = 2;
+
+export type ReadSaveResult<T> =
+  | { success: true; save: T; warnings: string[] }
+  | { success: false; errors: string[] };
+
+type JsonObject = Record<string, unknown>;
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * `migrations[v]` turns a save of version `v` into one of version `v + 1`.
+ * Every step keeps fields it does not know about.
+ */
+const migrations: Record<number, (save: JsonObject) => JsonObject> = {
+  // version 1 had no version field and regions without meter or suggestion
+  1: (save) => ({
+    ...save,
+    version: 2,
+    tempoRegions: Array.isArray(save.tempoRegions)
+      ? save.tempoRegions.map((r: unknown) => {
+          if (!isObject(r)) {
+            return r;
+          }
+          const firstBeat = Array.isArray(r.markedBeats)
+            ? r.markedBeats[0]
+            : undefined;
+          return {
+            suggested: false,
+            ...(typeof firstBeat === "number" && {
+              meter: {
+                beatsPerBar: DEFAULT_BEATS_PER_BAR,
+                downbeatTime: firstBeat,
+              },
+            }),
+            ...r,
+          };
+        })
+      : save.tempoRegions,
+  }),
+};
+
+function describe(value: unknown): string {
+  if (value === undefined) {
+    return "nothing";
+  }
+  const json = JSON.stringify(value);
+  return json.length > 40 ? json.slice(0, 37) + "..." : json;
+}
+
+export function formatValidationErrors(errors: IValidation.IError[]): string[] {
+  return errors.map((e) => {
+    const path = e.path.replace(/^\$input\.?/, "");
+    return `${path === "" ? "save" : path}: expected ${e.expected}, found ${describe(e.value)}`;
+  });
+}
+
+function migrate(data: unknown): ReadSaveResult<JsonObject> {
+  if (!isObject(data)) {
+    return {
+      success: false,
+      errors: [`save: expected an object, found ${describe(data)}`],
+    };
+  }
+  const version = data.version ?? 1;
+  if (
+    typeof version !== "number" ||
+    !Number.isInteger(version) ||
+    version < 1
+  ) {
+    return {
+      success: false,
+      errors: [
+        `version: expected a positive integer, found ${describe(version)}`,
+      ],
+    };
+  }
+  const warnings: string[] = [];
+  if (version > SAVE_VERSION) {
+    warnings.push(
+      `saved by a newer version of this tool (save version ${version}), fields it does not know are kept as they are and it is saved as version ${version} again`,
+    );
+  }
+  let save = data;
+  for (let v = version; v < SAVE_VERSION; v++) {
+    save = migrations[v](save);
+  }
+  return { success: true, save, warnings };
+}
+
+/** What the schema can not express: every region has ascending marked beats. */
+function checkMarkedBeats(save: SaveObject): string[] {
+  const errors: string[] = [];
+  for (const [i, r] of save.tempoRegions.entries()) {
+    if (r.markedBeats.length === 0) {
+      errors.push(`tempoRegions[${i}] has no marked beats`);
+    }
+    if (r.markedBeats.some((t, k) => k > 0 && t <= r.markedBeats[k - 1])) {
+      errors.push(`tempoRegions[${i}].markedBeats are not ascending`);
+    }
+  }
+  return errors;
+}
+
+function read<T extends SaveObject>(
+  data: unknown,
+  validate: (input: unknown) => IValidation<T>,
+): ReadSaveResult<T> {
+  const migrated = migrate(data);
+  if (!migrated.success) {
+    return migrated;
+  }
+  const validation = validate(migrated.save);
+  if (!validation.success) {
+    return {
+      success: false,
+      errors: formatValidationErrors(validation.errors),
+    };
+  }
+  const errors = checkMarkedBeats(validation.data);
+  if (errors.length > 0) {
+    return { success: false, errors };
+  }
+  return { success: true, save: validation.data, warnings: migrated.warnings };
+}
+
+/**
+ * Migrates a save of any version to the current one and validates it.
+ * Unknown fields pass through, so that saves of newer versions load.
+ */
+export function readSave(data: unknown): ReadSaveResult<SaveObject> {
+  return read(data, (input) => typia.validate<SaveObject>(input));
+}
+
+export function readSaveWithMetadata(
+  data: unknown,
+): ReadSaveResult<SaveWithMetadata> {
+  return read(data, (input) => typia.validate<SaveWithMetadata>(input));
+}
@@ -0,0 +1,263 @@
+import type { SaveWithMetadata } from "./annotate";
+import { readSaveWithMetadata } from "./save";
+import typia from "typia";
+
+export type FileStatus = "notStarted" | "inProgress" | "done";
+
+export const fileStatusLabels: Record<FileStatus, string> = {
+  notStarted: "Not started",
+  inProgress: "In progress",
+  done: "Done",
+};
+
+export type StoredAnnotation = {
+  key: string;
+  fileName: string;
+  fileSize: number;
+  status: FileStatus;
+  /** Milliseconds since the epoch of the last change. */
+  updatedAt: number;
+  /**
+   * As stored, possibly by an older or newer version, read it with
+   * `readSaveWithMetadata`.
+   */
+  save: unknown;
+};
+
+export type IAnnotationStore = {
+  get: (key: string) => Promise<StoredAnnotation | null>;
+  /** Stores the annotations, a file that was not started is now in progress. */
+  putSave: (key: string, save: SaveWithMetadata) => Promise<void>;
+  setStatus: (
+    key: string,
+    file: { name: string; size: number },
+    status: FileStatus,
+  ) => Promise<void>;
+  list: () => Promise<StoredAnnotation[]>;
+  /**
+   * The stored annotations of an audio file: by content fingerprint if
+   * known, otherwise the most recent ones stored for its file name.
+   */
+  findForAudio: (audio: AudioIdentity) => Promise<{
+    record: StoredAnnotation;
+    matchedBy: "fingerprint" | "name";
+  } | null>;
+  /** Moves a record to a new key, replacing any record stored there. */
+  rekey: (oldKey: string, newKey: string) => Promise<void>;
+  delete: (key: string) => Promise<void>;
+  /**
+   * Moves saves from `window.localStorage`, where they were kept by file
+   * name, into the store. Returns the number of migrated saves.
+   */
+  migrateLocalStorage: () => Promise<number>;
+  close: () => void;
+};
+
+const DB_NAME = "music-tempo-annotation";
+const DB_VERSION = 1;
+const STORE_NAME = "annotations";
+
+export type AudioIdentity = {
+  name: string;
+  size: number;
+  /**
+   * Hash of the file's bytes, see `audioFingerprint`. Null if it could not
+   * be computed, the file is then known by name and size only.
+   */
+  fingerprint: string | null;
+};
+
+/**
+ * Identifies a file by name and size, the fallback key for annotations
+ * stored before fingerprints or without having opened the file.
+ */
+export function fileKey(file: { name: string; size: number }): string {
+  return `${file.name}:${file.size}`;
+}
+
+export function fingerprintKey(fingerprint: string): string {
+  return `sha256:${fingerprint}`;
+}
+
+/** Key of the annotations of an audio file. */
+export function audioKey(audio: AudioIdentity): string {
+  return audio.fingerprint !== null
+    ? fingerprintKey(audio.fingerprint)
+    : fileKey(audio);
+}
+
+/** Hex encoded SHA-256 of the encoded audio file. */
+export async function audioFingerprint(data: ArrayBuffer): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", data);
+  return Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function completion(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    // quota errors and exceptions thrown in request handlers abort it
+    tx.onabort = () => reject(tx.error ?? new Error("transaction aborted"));
+  });
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  const request = indexedDB.open(DB_NAME, DB_VERSION);
+  request.onupgradeneeded = () => {
+    const db = request.result;
+    if (!db.objectStoreNames.contains(STORE_NAME)) {
+      db.createObjectStore(STORE_NAME, { keyPath: "key" });
+    }
+  };
+  return promisify(request);
+}
+
+/** Annotations of all files, persisted in IndexedDB. */
+export const AnnotationStore = async (): Promise<IAnnotationStore> => {
+  const db = await openDatabase();
+
+  const objectStore = (mode: IDBTransactionMode) =>
+    db.transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+
+  const get = async (key: string): Promise<StoredAnnotation | null> => {
+    const record: unknown = await promisify(objectStore("readonly").get(key));
+    if (record === undefined) {
+      return null;
+    }
+    if (!typia.is<StoredAnnotation>(record)) {
+      console.error("invalid stored annotation for key: " + key);
+      return null;
+    }
+    return record;
+  };
+
+  /**
+   * Replaces a record with `change` of the one stored, in a single
+   * transaction so that quick successive changes do not overwrite each other.
+   */
+  const update = (
+    key: string,
+    change: (existing: StoredAnnotation | null) => StoredAnnotation,
+  ): Promise<void> => {
+    const tx = db.transaction(STORE_NAME, "readwrite");
+    const store = tx.objectStore(STORE_NAME);
+    const request = store.get(key);
+    request.onsuccess = () => {
+      const record: unknown = request.result;
+      store.put(change(typia.is<StoredAnnotation>(record) ? record : null));
+    };
+    return completion(tx);
+  };
+
+  const putSave = (key: string, save: SaveWithMetadata) =>
+    update(key, (existing) => ({
+      key,
+      fileName: save.fileName,
+      fileSize: save.fileSize,
+      status:
+        existing === null || existing.status === "notStarted"
+          ? "inProgress"
+          : existing.status,
+      updatedAt: Date.now(),
+      save,
+    }));
+
+  const setStatus = (
+    key: string,
+    file: { name: string; size: number },
+    status: FileStatus,
+  ) =>
+    update(key, (existing) => ({
+      key,
+      fileName: file.name,
+      fileSize: file.size,
+      save: null,
+      ...existing,
+      status,
+      updatedAt: Date.now(),
+    }));
+
+  const list = async (): Promise<StoredAnnotation[]> => {
+    const records: unknown[] = await promisify(
+      objectStore("readonly").getAll(),
+    );
+    return records.filter((r) => typia.is<StoredAnnotation>(r));
+  };
+
+  const findForAudio = async (audio: AudioIdentity) => {
+    if (audio.fingerprint !== null) {
+      const byFingerprint = await get(fingerprintKey(audio.fingerprint));
+      if (byFingerprint !== null) {
+        return { record: byFingerprint, matchedBy: "fingerprint" as const };
+      }
+    }
+    const byName = (await list())
+      .filter((r) => r.fileName === audio.name)
+      .sort((a, b) => b.updatedAt - a.updatedAt);
+    if (byName.length === 0) {
+      return null;
+    }
+    return { record: byName[0], matchedBy: "name" as const };
+  };
+
+  const rekey = async (oldKey: string, newKey: string) => {
+    if (oldKey === newKey) {
+      return;
+    }
+    const record = await get(oldKey);
+    if (record === null) {
+      return;
+    }
+    const tx = db.transaction(STORE_NAME, "readwrite");
+    tx.objectStore(STORE_NAME).put({ ...record, key: newKey });
+    tx.objectStore(STORE_NAME).delete(oldKey);
+    await completion(tx);
+  };
+
+  const migrateLocalStorage = async (): Promise<number> => {
+    let migrated = 0;
+    for (const name of Object.keys(window.localStorage)) {
+      let json: unknown;
+      try {
+        json = JSON.parse(window.localStorage[name]);
+      } catch {
+        continue;
+      }
+      const result = readSaveWithMetadata(json);
+      if (!result.success) {
+        continue;
+      }
+      const saved = result.save;
+      const key = fileKey({ name: saved.fileName, size: saved.fileSize });
+      // never overwrite newer work with a stale local copy
+      if ((await get(key)) === null) {
+        await putSave(key, saved);
+      }
+      window.localStorage.removeItem(name);
+      migrated += 1;
+    }
+    return migrated;
+  };
+
+  return {
+    get,
+    putSave,
+    setStatus,
+    list,
+    findForAudio,
+    rekey,
+    delete: (key: string) =>
+      promisify(objectStore("readwrite").delete(key)).then(() => {}),
+    migrateLocalStorage,
+    close: () => db.close(),
+  };
+};
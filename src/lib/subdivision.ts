@@ -0,0 +1,115 @@
+import { lowerBound } from "./util";
+
+export type SubdivisionType = "none" | "eighths" | "sixteenths" | "triplets";
+
+/** Subdivision units per beat. */
+export const SUBDIVISION_UNITS: Record<SubdivisionType, number> = {
+  none: 1,
+  eighths: 2,
+  sixteenths: 4,
+  triplets: 3,
+};
+
+export const subdivisionLabels: Record<SubdivisionType, string> = {
+  none: "None",
+  eighths: "8ths",
+  sixteenths: "16ths",
+  triplets: "Triplets",
+};
+
+// positions within a pair of units that count as its offbeat, marks closer
+// to the start of the pair are taken as onbeat
+const MIN_OFFBEAT_FRACTION = 0.25;
+const MAX_OFFBEAT_FRACTION = 0.85;
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0
+    ? (sorted[mid - 1] + sorted[mid]) / 2
+    : sorted[mid];
+}
+
+/** Swing lengthens the first unit of each pair, so only even types swing. */
+export function canSwing(type: SubdivisionType): boolean {
+  return type !== "none" && SUBDIVISION_UNITS[type] % 2 === 0;
+}
+
+/**
+ * Swing ratio of marked subdivision onsets: the length of the first unit of
+ * a pair divided by that of the second, 1 when straight and 2 for triplet
+ * swing. Uses the median position of the marked offbeats between the beats
+ * of `grid`, null if the type does not swing or nothing was marked.
+ */
+export function estimateSwingRatio(
+  grid: number[],
+  marks: number[],
+  type: SubdivisionType,
+): number | null {
+  if (!canSwing(type) || grid.length < 2) {
+    return null;
+  }
+  const pairsPerBeat = SUBDIVISION_UNITS[type] / 2;
+  const fractions: number[] = [];
+  for (const time of marks) {
+    const i = lowerBound(grid, time) - 1;
+    if (i < 0 || i + 1 >= grid.length) {
+      continue;
+    }
+    const pairs = ((time - grid[i]) / (grid[i + 1] - grid[i])) * pairsPerBeat;
+    const fraction = pairs - Math.floor(pairs);
+    if (MIN_OFFBEAT_FRACTION < fraction && fraction < MAX_OFFBEAT_FRACTION) {
+      fractions.push(fraction);
+    }
+  }
+  if (fractions.length === 0) {
+    return null;
+  }
+  const fraction = median(fractions);
+  return fraction / (1 - fraction);
+}
+
+/**
+ * Subdivision onsets between the beats of `grid`, without the beats
+ * themselves. After the last beat the interval before it repeats, up to
+ * `endTime`.
+ */
+export function subdivisionTimes(
+  grid: number[],
+  type: SubdivisionType,
+  swingRatio: number | null,
+  endTime: number,
+): number[] {
+  const units = SUBDIVISION_UNITS[type];
+  if (units === 1 || grid.length < 2) {
+    return [];
+  }
+  // onsets as fractions of a beat
+  const positions: number[] = [];
+  if (canSwing(type)) {
+    const pairsPerBeat = units / 2;
+    const offbeat = swingRatio !== null ? swingRatio / (1 + swingRatio) : 0.5;
+    for (let k = 0; k < pairsPerBeat; k++) {
+      if (k > 0) {
+        positions.push(k / pairsPerBeat);
+      }
+      positions.push((k + offbeat) / pairsPerBeat);
+    }
+  } else {
+    for (let k = 1; k < units; k++) {
+      positions.push(k / units);
+    }
+  }
+  const times: number[] = [];
+  for (let i = 0; i < grid.length; i++) {
+    const period =
+      i + 1 < grid.length ? grid[i + 1] - grid[i] : grid[i] - grid[i - 1];
+    for (const p of positions) {
+      const t = grid[i] + p * period;
+      if (t < endTime) {
+        times.push(t);
+      }
+    }
+  }
+  return times;
+}
@@ -29,3 +29,32 @@ export function isSortedAscending<T>(arr: T[], key: (t: T) => number): boolean {
   }
   return true;
 }
+
+/** Index of the first element of the ascending `arr` that is >= `value`. */
+export function lowerBound(arr: ArrayLike<number>, value: number): number {
+  let lo = 0;
+  let hi = arr.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >>> 1;
+    if (arr[mid] < value) {
+      lo = mid + 1;
+    } else {
+      hi = mid;
+    }
+  }
+  return lo;
+}
+
+/** Element of the ascending `arr` closest to `value`, or null if empty. */
+export function nearest(arr: ArrayLike<number>, value: number): number | null {
+  if (arr.length === 0) {
+    return null;
+  }
+  const i = lowerBound(arr, value);
+  if (i === 0) {
+    return arr[0];
+  } else if (i === arr.length) {
+    return arr[arr.length - 1];
+  }
+  return value - arr[i - 1] <= arr[i] - value ? arr[i - 1] : arr[i];
+}